@@ -84,6 +84,134 @@ namespace ProductAPI.Tests
                 Times.Once);
         }
 
+        [Fact]
+        public async Task GetProducts_ReturnsDiscountPercentage()
+        {
+            // Arrange
+            var mockResponse = @"{
+                ""products"": [
+                    {
+                        ""id"": 1,
+                        ""title"": ""iPhone 9"",
+                        ""price"": 549,
+                        ""discountPercentage"": 12.5
+                    }
+                ],
+                ""total"": 1,
+                ""skip"": 0,
+                ""limit"": 12
+            }";
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(() => new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(mockResponse)
+                });
+
+            // Act
+            var result = await _controller.GetProducts(null, 1);
+
+            // Assert
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var json = System.Text.Json.JsonSerializer.Serialize(okResult.Value);
+            using var document = System.Text.Json.JsonDocument.Parse(json);
+            var product = document.RootElement.GetProperty("products")[0];
+            Assert.Equal(12.5m, product.GetProperty("discountPercentage").GetDecimal());
+        }
+
+        [Fact]
+        public async Task GetProducts_ReturnsStockAndOrderFields()
+        {
+            // Arrange
+            var mockResponse = @"{
+                ""products"": [
+                    {
+                        ""id"": 1,
+                        ""title"": ""iPhone 9"",
+                        ""price"": 549,
+                        ""stock"": 7,
+                        ""minimumOrderQuantity"": 3,
+                        ""availabilityStatus"": ""Low Stock""
+                    }
+                ],
+                ""total"": 1,
+                ""skip"": 0,
+                ""limit"": 12
+            }";
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(() => new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(mockResponse)
+                });
+
+            // Act
+            var result = await _controller.GetProducts(null, 1);
+
+            // Assert
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var json = System.Text.Json.JsonSerializer.Serialize(okResult.Value);
+            using var document = System.Text.Json.JsonDocument.Parse(json);
+            var product = document.RootElement.GetProperty("products")[0];
+            Assert.Equal(7, product.GetProperty("stock").GetInt32());
+            Assert.Equal(3, product.GetProperty("minimumOrderQuantity").GetInt32());
+            Assert.Equal("Low Stock", product.GetProperty("availabilityStatus").GetString());
+        }
+
+        [Fact]
+        public async Task GetProducts_ReturnsImages()
+        {
+            // Arrange
+            var mockResponse = @"{
+                ""products"": [
+                    {
+                        ""id"": 1,
+                        ""title"": ""iPhone 9"",
+                        ""price"": 549,
+                        ""images"": [""https://example.com/1.jpg"", ""https://example.com/2.jpg""]
+                    }
+                ],
+                ""total"": 1,
+                ""skip"": 0,
+                ""limit"": 12
+            }";
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(() => new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(mockResponse)
+                });
+
+            // Act
+            var result = await _controller.GetProducts(null, 1);
+
+            // Assert
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var json = System.Text.Json.JsonSerializer.Serialize(okResult.Value);
+            using var document = System.Text.Json.JsonDocument.Parse(json);
+            var images = document.RootElement.GetProperty("products")[0].GetProperty("images");
+            Assert.Equal(2, images.GetArrayLength());
+            Assert.Equal("https://example.com/1.jpg", images[0].GetString());
+        }
+
         [Fact]
         public async Task GetProducts_WithSearch_CallsCorrectEndpoint()
         {
@@ -115,6 +243,408 @@ namespace ProductAPI.Tests
             Assert.Contains($"search?q={searchTerm}", capturedRequest.RequestUri.ToString());
         }
 
+        [Fact]
+        public async Task GetProducts_WithSearch_EscapesTheSearchTerm()
+        {
+            // Arrange
+            var requestedUrls = new List<string>();
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    requestedUrls.Add(request.RequestUri!.AbsoluteUri);
+                })
+                .ReturnsAsync(() => new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(@"{""products"": [], ""total"": 0, ""skip"": 0, ""limit"": 10}")
+                });
+
+            // Act
+            await _controller.GetProducts("a&limit=1#b", 1);
+
+            // Assert - both the page and the facet request keep the term inside q
+            Assert.Equal(2, requestedUrls.Count);
+            Assert.All(requestedUrls, url => Assert.Contains("search?q=a%26limit%3D1%23b&", url));
+        }
+
+        [Fact]
+        public async Task GetProducts_WithCategory_CallsCategoryEndpoint()
+        {
+            // Arrange
+            // The list request is followed by a facet request, so record both
+            var requestedUrls = new List<string>();
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    requestedUrls.Add(request.RequestUri!.ToString());
+                })
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(@"{""products"": [], ""total"": 0, ""skip"": 12, ""limit"": 12}")
+                });
+
+            // Act
+            await _controller.GetProducts(null, 2, "smartphones");
+
+            // Assert
+            Assert.Contains(requestedUrls, url => url.Contains("products/category/smartphones?limit=12&skip=12"));
+        }
+
+        [Fact]
+        public async Task GetProducts_WithCategoryAndSearch_FiltersCategoryLocally()
+        {
+            // Arrange
+            var mockResponse = @"{
+                ""products"": [
+                    { ""id"": 1, ""title"": ""iPhone 9"", ""brand"": ""Apple"", ""description"": ""An apple mobile"" },
+                    { ""id"": 2, ""title"": ""Galaxy S8"", ""brand"": ""Samsung"", ""description"": ""A samsung mobile"" },
+                    { ""id"": 3, ""title"": ""iPhone X"", ""description"": ""Another apple mobile"" }
+                ],
+                ""total"": 3,
+                ""skip"": 0,
+                ""limit"": 3
+            }";
+            HttpRequestMessage capturedRequest = null;
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    capturedRequest = request;
+                })
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(mockResponse)
+                });
+
+            // Act
+            var result = await _controller.GetProducts("iphone", 1, "smartphones");
+
+            // Assert
+            Assert.Contains("products/category/smartphones?limit=0", capturedRequest.RequestUri.ToString());
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var json = System.Text.Json.JsonSerializer.Serialize(okResult.Value);
+            Assert.Contains(@"""total"":2", json);
+            Assert.DoesNotContain("Galaxy", json);
+        }
+
+        [Fact]
+        public async Task GetProducts_WithSort_ForwardsSortParameters()
+        {
+            // Arrange
+            // The list request is followed by a facet request, so record both
+            var requestedUrls = new List<string>();
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    requestedUrls.Add(request.RequestUri!.ToString());
+                })
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(@"{""products"": [], ""total"": 0, ""skip"": 0, ""limit"": 12}")
+                });
+
+            // Act
+            await _controller.GetProducts("phone", 1, null, "price", "desc");
+
+            // Assert
+            Assert.Contains(requestedUrls, url => url.Contains("sortBy=price&order=desc"));
+        }
+
+        [Fact]
+        public async Task GetProducts_WithUnknownSortField_ReturnsBadRequest()
+        {
+            // Act
+            var result = await _controller.GetProducts(null, 1, null, "stock", "asc");
+
+            // Assert
+            Assert.IsType<BadRequestObjectResult>(result);
+        }
+
+        [Fact]
+        public async Task GetProducts_ReturnsFacetCounts_FromLightweightRequest()
+        {
+            // Arrange
+            var mockResponse = @"{
+                ""products"": [
+                    { ""id"": 1, ""price"": 9.99, ""rating"": 4.5 },
+                    { ""id"": 2, ""price"": 49.99, ""rating"": 3.2 },
+                    { ""id"": 3, ""price"": 549.99, ""rating"": 4.1 }
+                ],
+                ""total"": 3,
+                ""skip"": 0,
+                ""limit"": 0
+            }";
+            var requestedUrls = new List<string>();
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    requestedUrls.Add(request.RequestUri!.ToString());
+                })
+                .ReturnsAsync(() => new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(mockResponse)
+                });
+
+            // Act
+            var result = await _controller.GetProducts(null, 1);
+
+            // Assert
+            Assert.Contains(requestedUrls, url => url.Contains("products?limit=0&select=price,rating"));
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var json = System.Text.Json.JsonSerializer.Serialize(okResult.Value);
+            Assert.Contains(@"""Price"":[{""Min"":0,""Max"":25,""Count"":1},{""Min"":25,""Max"":100,""Count"":1},{""Min"":100,""Max"":500,""Count"":0},{""Min"":500,""Max"":null,""Count"":1}]", json);
+            Assert.Contains(@"{""MinRating"":4,""Count"":2}", json);
+        }
+
+        [Fact]
+        public async Task GetProducts_WithPriceAndRatingFilters_FiltersLocally()
+        {
+            // Arrange
+            var mockResponse = @"{
+                ""products"": [
+                    { ""id"": 1, ""title"": ""Cheap"", ""price"": 9.99, ""rating"": 4.5 },
+                    { ""id"": 2, ""title"": ""Mid"", ""price"": 49.99, ""rating"": 4.8 },
+                    { ""id"": 3, ""title"": ""Mid but poorly rated"", ""price"": 59.99, ""rating"": 2.1 },
+                    { ""id"": 4, ""title"": ""Pricey"", ""price"": 549.99, ""rating"": 4.9 }
+                ],
+                ""total"": 4,
+                ""skip"": 0,
+                ""limit"": 0
+            }";
+            HttpRequestMessage capturedRequest = null;
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    capturedRequest = request;
+                })
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(mockResponse)
+                });
+
+            // Act
+            var result = await _controller.GetProducts(null, 1, null, null, null, 25m, 100m, 4m);
+
+            // Assert
+            _mockHttpHandler.Protected().Verify(
+                "SendAsync",
+                Times.Once(),
+                ItExpr.IsAny<HttpRequestMessage>(),
+                ItExpr.IsAny<CancellationToken>());
+            Assert.Contains("products?limit=0", capturedRequest.RequestUri.ToString());
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var json = System.Text.Json.JsonSerializer.Serialize(okResult.Value);
+            Assert.Contains(@"""total"":1", json);
+            Assert.Contains(@"""title"":""Mid""", json);
+            Assert.DoesNotContain("poorly rated", json);
+            // Rating counts stay within the price filter; price counts stay within the rating filter
+            Assert.Contains(@"{""MinRating"":2,""Count"":2}", json);
+            Assert.Contains(@"{""Min"":500,""Max"":null,""Count"":1}", json);
+        }
+
+        [Theory]
+        [InlineData(-1, null, null)]
+        [InlineData(100, 25, null)]
+        [InlineData(null, null, 6)]
+        public async Task GetProducts_WithInvalidFilters_ReturnsBadRequest(int? minPrice, int? maxPrice, int? minRating)
+        {
+            // Act
+            var result = await _controller.GetProducts(null, 1, null, null, null, minPrice, maxPrice, minRating);
+
+            // Assert
+            Assert.IsType<BadRequestObjectResult>(result);
+        }
+
+        [Fact]
+        public async Task GetProducts_WithPageSize_UsesItForLimitAndSkip()
+        {
+            // Arrange
+            var requestedUrls = new List<string>();
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    requestedUrls.Add(request.RequestUri!.ToString());
+                })
+                .ReturnsAsync(() => new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(@"{""products"": [], ""total"": 100, ""skip"": 48, ""limit"": 24}")
+                });
+
+            // Act
+            var result = await _controller.GetProducts(null, 3, pageSize: 24);
+
+            // Assert
+            Assert.Contains(requestedUrls, url => url.Contains("products?limit=24&skip=48"));
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var json = System.Text.Json.JsonSerializer.Serialize(okResult.Value);
+            Assert.Contains(@"""totalPages"":5", json);
+        }
+
+        [Theory]
+        [InlineData(0)]
+        [InlineData(101)]
+        public async Task GetProducts_WithInvalidPageSize_ReturnsBadRequest(int pageSize)
+        {
+            // Act
+            var result = await _controller.GetProducts(null, 1, pageSize: pageSize);
+
+            // Assert
+            Assert.IsType<BadRequestObjectResult>(result);
+        }
+
+        [Fact]
+        public async Task GetCategories_ReturnsCategories_AndCachesThem()
+        {
+            // Arrange
+            var callCount = 0;
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(() =>
+                {
+                    callCount++;
+                    return new HttpResponseMessage
+                    {
+                        StatusCode = HttpStatusCode.OK,
+                        Content = new StringContent(@"[{""slug"": ""beauty"", ""name"": ""Beauty"", ""url"": ""https://dummyjson.com/products/category/beauty""}]")
+                    };
+                });
+
+            // Act
+            var result1 = await _controller.GetCategories();
+            var result2 = await _controller.GetCategories();
+
+            // Assert
+            var okResult = Assert.IsType<OkObjectResult>(result1);
+            var categories = Assert.IsType<List<CategoryDto>>(okResult.Value);
+            Assert.Single(categories);
+            Assert.Equal("beauty", categories[0].Slug);
+            Assert.IsType<OkObjectResult>(result2);
+            Assert.Equal(1, callCount);
+        }
+
+        [Fact]
+        public async Task GetSuggestions_RequestsOnlyTheSuggestionFields()
+        {
+            // Arrange
+            HttpRequestMessage capturedRequest = null;
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .Callback<HttpRequestMessage, CancellationToken>((request, _) =>
+                {
+                    capturedRequest = request;
+                })
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(@"{
+                        ""products"": [
+                            { ""id"": 1, ""title"": ""iPhone 9"", ""brand"": ""Apple"", ""category"": ""smartphones"", ""thumbnail"": ""https://example.com/1.jpg"" }
+                        ],
+                        ""total"": 1, ""skip"": 0, ""limit"": 3
+                    }")
+                });
+
+            // Act
+            var result = await _controller.GetSuggestions("iphone 9", 3);
+
+            // Assert
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var suggestions = Assert.IsType<List<ProductSuggestionDto>>(okResult.Value);
+            Assert.Single(suggestions);
+            Assert.Equal("iPhone 9", suggestions[0].Title);
+            Assert.Equal("Apple", suggestions[0].Brand);
+
+            var url = capturedRequest.RequestUri.AbsoluteUri;
+            Assert.Contains("search?q=iphone%209", url);
+            Assert.Contains("limit=3", url);
+            Assert.Contains("select=title,brand,category,thumbnail", url);
+        }
+
+        [Fact]
+        public async Task GetSuggestions_WithBlankTerm_ReturnsEmptyListWithoutCallingApi()
+        {
+            // Act
+            var result = await _controller.GetSuggestions("  ");
+
+            // Assert
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            Assert.Empty(Assert.IsType<List<ProductSuggestionDto>>(okResult.Value));
+            _mockHttpHandler
+                .Protected()
+                .Verify(
+                    "SendAsync",
+                    Times.Never(),
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>());
+        }
+
+        [Theory]
+        [InlineData(0)]
+        [InlineData(11)]
+        public async Task GetSuggestions_WithInvalidLimit_ReturnsBadRequest(int limit)
+        {
+            // Act
+            var result = await _controller.GetSuggestions("phone", limit);
+
+            // Assert
+            Assert.IsType<BadRequestObjectResult>(result);
+        }
+
         [Fact]
         public async Task GetProduct_UsesCacheOnSecondCall()
         {
@@ -192,6 +722,42 @@ namespace ProductAPI.Tests
             Assert.NotNull(notFoundResult.Value);
         }
 
+        [Fact]
+        public async Task GetProduct_ReturnsOrderingFields()
+        {
+            // Arrange
+            var mockResponse = @"{
+                ""id"": 1,
+                ""title"": ""Test Product"",
+                ""price"": 99.99,
+                ""stock"": 4,
+                ""minimumOrderQuantity"": 2,
+                ""availabilityStatus"": ""Low Stock""
+            }";
+
+            _mockHttpHandler
+                .Protected()
+                .Setup<Task<HttpResponseMessage>>(
+                    "SendAsync",
+                    ItExpr.IsAny<HttpRequestMessage>(),
+                    ItExpr.IsAny<CancellationToken>())
+                .ReturnsAsync(new HttpResponseMessage
+                {
+                    StatusCode = HttpStatusCode.OK,
+                    Content = new StringContent(mockResponse)
+                });
+
+            // Act
+            var result = await _controller.GetProduct(1);
+
+            // Assert
+            var okResult = Assert.IsType<OkObjectResult>(result);
+            var product = Assert.IsType<ProductDto>(okResult.Value);
+            Assert.Equal(4, product.Stock);
+            Assert.Equal(2, product.MinimumOrderQuantity);
+            Assert.Equal("Low Stock", product.AvailabilityStatus);
+        }
+
         [Fact]
         public async Task GetProducts_HandlesApiError_ReturnsServerError()
         {
@@ -31,6 +31,21 @@ namespace ProductAPI.Controllers
         // The base URL of the external service we're getting product data from
         private const string DUMMY_JSON_BASE_URL = "https://dummyjson.com";
 
+        // Products per page when the client doesn't ask for a page size, and the most it may ask for
+        private const int DEFAULT_PAGE_SIZE = 12;
+        private const int MAX_PAGE_SIZE = 100;
+
+        // Suggestions returned by default for search-as-you-type, and the most a client may ask for
+        private const int DEFAULT_SUGGESTION_LIMIT = 5;
+        private const int MAX_SUGGESTION_LIMIT = 10;
+
+        // The product fields clients are allowed to sort by
+        private static readonly HashSet<string> SORTABLE_FIELDS = new() { "price", "rating", "title", "discountPercentage" };
+
+        // The price ranges and minimum ratings offered as filters (keep in sync with constants/filters.ts in the front-end)
+        private static readonly (decimal Min, decimal? Max)[] PRICE_RANGES = { (0m, 25m), (25m, 100m), (100m, 500m), (500m, null) };
+        private static readonly int[] RATING_OPTIONS = { 4, 3, 2, 1 };
+
         /// <summary>
         /// CONSTRUCTOR - This runs when the controller is created.
         /// It's like giving the waiter their notepad, pen, and menu when they start their shift.
@@ -53,12 +68,20 @@ namespace ProductAPI.Controllers
         /// - Search for phones: GET api/products?search=phone
         /// - Get page 2 of results: GET api/products?page=2
         /// - Search phones on page 2: GET api/products?search=phone&page=2
+        /// - Browse a category: GET api/products?category=smartphones
+        /// - Search within a category: GET api/products?category=smartphones&search=apple
+        /// - Cheapest first: GET api/products?sortBy=price&order=asc
+        /// - Between $25 and $100, rated 4 stars or more: GET api/products?minPrice=25&maxPrice=100&minRating=4
+        /// - 48 products per page: GET api/products?pageSize=48
         ///
         /// How it works:
         /// 1. Receives the request with optional search term and page number
         /// 2. Calls the external DummyJSON API to get product data
         /// 3. Formats the data into a structure our front-end expects
         /// 4. Returns the formatted data with HTTP status codes
+        ///
+        /// The response also includes "facets": how many results each price range and
+        /// rating option would return, so the front-end can show counts next to its filters.
         /// </summary>
         // This attribute tells ASP.NET this method handles HTTP GET requests
         [HttpGet]
@@ -66,51 +89,122 @@ namespace ProductAPI.Controllers
         // "IActionResult" is a flexible return type that can send different types of responses
         public async Task<IActionResult> GetProducts(
             [FromQuery] string? search,    // Optional search term from the URL query string (the part after ?)
-            [FromQuery] int page = 1)      // Page number from query string (defaults to 1 if not provided)
+            [FromQuery] int page = 1,      // Page number from query string (defaults to 1 if not provided)
+            [FromQuery] string? category = null,  // Optional category slug, e.g. "smartphones"
+            [FromQuery] string? sortBy = null,    // Optional field to sort by: price, rating, title or discountPercentage
+            [FromQuery] string? order = null,     // Sort direction: "asc" (default) or "desc"
+            [FromQuery] decimal? minPrice = null, // Optional lowest price (inclusive)
+            [FromQuery] decimal? maxPrice = null, // Optional highest price (exclusive)
+            [FromQuery] decimal? minRating = null, // Optional minimum rating, 0 to 5
+            [FromQuery] int pageSize = DEFAULT_PAGE_SIZE) // How many products per page, 1 to 100
         {
+            // VALIDATE SORTING: only forward fields we know DummyJSON can sort by
+            if (!string.IsNullOrEmpty(sortBy) && !SORTABLE_FIELDS.Contains(sortBy))
+            {
+                return BadRequest(new { error = $"Cannot sort by '{sortBy}'" });
+            }
+            if (!string.IsNullOrEmpty(order) && order != "asc" && order != "desc")
+            {
+                return BadRequest(new { error = "Order must be 'asc' or 'desc'" });
+            }
+
+            // VALIDATE PAGE SIZE: keep requests to DummyJSON reasonably small
+            if (pageSize < 1 || pageSize > MAX_PAGE_SIZE)
+            {
+                return BadRequest(new { error = $"pageSize must be between 1 and {MAX_PAGE_SIZE}" });
+            }
+
+            // VALIDATE FILTERS
+            if (minPrice < 0 || maxPrice < 0)
+            {
+                return BadRequest(new { error = "Prices cannot be negative" });
+            }
+            if (minPrice > maxPrice)
+            {
+                return BadRequest(new { error = "minPrice cannot be greater than maxPrice" });
+            }
+            if (minRating < 0 || minRating > 5)
+            {
+                return BadRequest(new { error = "minRating must be between 0 and 5" });
+            }
+
             // TRY-CATCH BLOCK: This is error handling - if anything goes wrong, we catch it and handle it gracefully
             try
             {
                 // LOG the incoming request for debugging and monitoring purposes
-                _logger.LogInformation($"Getting products - Search: {search}, Page: {page}");
+                _logger.LogInformation($"Getting products - Search: {search}, Page: {page}, Category: {category}, Sort: {sortBy} {order}, Price: {minPrice}-{maxPrice}, Rating: {minRating}+, Page size: {pageSize}");
                 
                 // PAGINATION SETUP: Breaking results into "pages" like a book
-                var limit = 12; // How many products to show per page (like 12 items per catalog page)
+                var limit = pageSize; // How many products to show per page (like 12 items per catalog page)
                 var skip = (page - 1) * limit; // Calculate how many items to skip to get to the requested page
                 // Example: Page 2 would skip the first 12 items (page 2 - 1 = 1, 1 × 12 = 12)
                 
+                // SEARCH WITHIN A CATEGORY
+                // DummyJSON can't combine search and category, so we fetch the whole category
+                // (categories are small) and filter and paginate it ourselves
+                bool searchWithinCategory = !string.IsNullOrEmpty(category) && !string.IsNullOrEmpty(search);
+
+                // PRICE AND RATING FILTERS
+                // DummyJSON can't filter by price or rating either, so those requests also fetch every match
+                bool hasFilters = minPrice.HasValue || maxPrice.HasValue || minRating.HasValue;
+                bool paginateLocally = searchWithinCategory || hasFilters;
+
                 // BUILD THE REQUEST URL
-                // We construct different URLs depending on whether the user is searching or just browsing
-                string url;
-                if (!string.IsNullOrEmpty(search))
+                // We pick a different endpoint depending on whether the user is browsing a category, searching or just browsing
+                string baseUrl;
+                if (!string.IsNullOrEmpty(category))
                 {
-                    // If searching, use the search endpoint with the search query (q), limit, and skip parameters
-                    url = $"{DUMMY_JSON_BASE_URL}/products/search?q={search}&limit={limit}&skip={skip}";
+                    // If browsing a category, use the category endpoint
+                    baseUrl = $"{DUMMY_JSON_BASE_URL}/products/category/{Uri.EscapeDataString(category)}?";
+                }
+                else if (!string.IsNullOrEmpty(search))
+                {
+                    // If searching, use the search endpoint with the search query (q)
+                    // Escaped so characters like & or # can't add to or cut off the query string
+                    baseUrl = $"{DUMMY_JSON_BASE_URL}/products/search?q={Uri.EscapeDataString(search)}&";
                 }
                 else
                 {
-                    // If not searching, get all products with pagination
-                    url = $"{DUMMY_JSON_BASE_URL}/products?limit={limit}&skip={skip}";
+                    // If not searching, get all products
+                    baseUrl = $"{DUMMY_JSON_BASE_URL}/products?";
+                }
+
+                // limit=0 asks DummyJSON for every match; otherwise we only ask for the requested page
+                string url = paginateLocally ? $"{baseUrl}limit=0" : $"{baseUrl}limit={limit}&skip={skip}";
+
+                // ADD SORTING - DummyJSON sorts for us on every endpoint it paginates
+                if (!string.IsNullOrEmpty(sortBy) && !paginateLocally)
+                {
+                    url += $"&sortBy={sortBy}&order={order ?? "asc"}";
                 }
 
                 // MAKE THE HTTP REQUEST to the external API
-                // "await" means we wait for the response without blocking other operations
-                var response = await _httpClient.GetAsync(url);
-                
-                // Check if the request was successful (status code 200-299)
-                // If not, this will throw an exception
-                response.EnsureSuccessStatusCode();
-                
-                // READ THE RESPONSE
-                // Convert the response body from JSON text to a string
-                var json = await response.Content.ReadAsStringAsync();
-                
-                // DESERIALIZE: Convert the JSON string into C# objects we can work with
-                // Like translating a foreign language menu into English
-                var dummyJsonResponse = JsonSerializer.Deserialize<DummyJsonResponse>(json, new JsonSerializerOptions
+                var dummyJsonResponse = await FetchProductsAsync(url);
+
+                // FACETS - how many results each price range and rating option would return
+                ProductFacets facets;
+
+                // LOCAL FILTERING, SORTING AND PAGINATION
+                if (paginateLocally)
                 {
-                    PropertyNameCaseInsensitive = true // Ignore case differences in property names (id vs Id)
-                });
+                    var candidates = searchWithinCategory
+                        ? dummyJsonResponse.Products.Where(p => MatchesSearch(p, search!)).ToList()
+                        : dummyJsonResponse.Products;
+                    facets = ComputeFacets(candidates, minPrice, maxPrice, minRating);
+
+                    var matches = SortProducts(
+                        candidates.Where(p => MatchesPrice(p, minPrice, maxPrice) && MatchesRating(p, minRating)),
+                        sortBy,
+                        order).ToList();
+                    dummyJsonResponse.Total = matches.Count;
+                    dummyJsonResponse.Products = matches.Skip(skip).Take(limit).ToList();
+                }
+                else
+                {
+                    // Counting needs every match, but only their price and rating
+                    var facetResponse = await FetchProductsAsync($"{baseUrl}limit=0&select=price,rating");
+                    facets = ComputeFacets(facetResponse.Products, null, null, null);
+                }
 
                 // NORMALIZE/FORMAT THE RESPONSE
                 // Transform the data into the exact format our front-end expects
@@ -127,12 +221,18 @@ namespace ProductAPI.Controllers
                         thumbnail = p.Thumbnail,
                         rating = p.Rating,
                         brand = p.Brand,
-                        category = p.Category
+                        category = p.Category,
+                        images = p.Images,                              // Lets the detail views render a gallery straight from the list
+                        discountPercentage = p.DiscountPercentage,      // Shown as a struck-through original price on the cards
+                        stock = p.Stock,                                // Bounds the quantity stepper in the quick view
+                        minimumOrderQuantity = p.MinimumOrderQuantity,
+                        availabilityStatus = p.AvailabilityStatus
                     }),
                     total = dummyJsonResponse?.Total ?? 0,  // Total number of products available (using 0 if null)
                     page = page,                            // Current page number
-                    totalPages = (int)Math.Ceiling((dummyJsonResponse?.Total ?? 0) / (double)limit) // Calculate total pages
+                    totalPages = (int)Math.Ceiling((dummyJsonResponse?.Total ?? 0) / (double)limit), // Calculate total pages
                     // Math.Ceiling rounds up, so 25 items ÷ 12 per page = 2.08, which rounds up to 3 pages
+                    facets = facets                         // Result counts for the price and rating filters
                 };
 
                 // LOG SUCCESS
@@ -153,6 +253,112 @@ namespace ProductAPI.Controllers
             }
         }
 
+        /// <summary>
+        /// GET CATEGORIES ENDPOINT
+        ///
+        /// What it does: Returns every product category so the front-end can offer category filters
+        ///
+        /// URL Example: GET api/products/categories
+        ///
+        /// Categories change rarely, so the list is cached for an hour.
+        /// The literal "categories" route takes precedence over the {id} route below.
+        /// </summary>
+        [HttpGet("categories")]
+        public async Task<IActionResult> GetCategories()
+        {
+            try
+            {
+                _logger.LogInformation("Getting categories");
+
+                const string cacheKey = "categories";
+                if (_cache.TryGetValue(cacheKey, out List<CategoryDto>? cachedCategories))
+                {
+                    _logger.LogInformation("Returning cached categories");
+                    return Ok(cachedCategories);
+                }
+
+                var response = await _httpClient.GetAsync($"{DUMMY_JSON_BASE_URL}/products/categories");
+                response.EnsureSuccessStatusCode();
+
+                var json = await response.Content.ReadAsStringAsync();
+                var categories = JsonSerializer.Deserialize<List<CategoryDto>>(json, new JsonSerializerOptions
+                {
+                    PropertyNameCaseInsensitive = true
+                }) ?? new List<CategoryDto>();
+
+                _cache.Set(cacheKey, categories, new MemoryCacheEntryOptions()
+                    .SetAbsoluteExpiration(TimeSpan.FromHours(1)));
+
+                _logger.LogInformation($"Successfully retrieved {categories.Count} categories");
+                return Ok(categories);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error fetching categories");
+                return StatusCode(500, new { error = "Failed to fetch categories" });
+            }
+        }
+
+        /// <summary>
+        /// GET SEARCH SUGGESTIONS ENDPOINT
+        ///
+        /// What it does: Returns a handful of products matching a partial search term, for search-as-you-type
+        ///
+        /// URL Example: GET api/products/suggest?q=pho&limit=5
+        ///
+        /// Only the fields the suggestion list shows are requested from DummyJSON, so the response stays small.
+        /// A blank term returns an empty list rather than every product.
+        /// </summary>
+        [HttpGet("suggest")]
+        public async Task<IActionResult> GetSuggestions([FromQuery] string? q, [FromQuery] int limit = DEFAULT_SUGGESTION_LIMIT)
+        {
+            if (limit < 1 || limit > MAX_SUGGESTION_LIMIT)
+            {
+                return BadRequest(new { error = $"limit must be between 1 and {MAX_SUGGESTION_LIMIT}" });
+            }
+
+            var term = q?.Trim();
+            if (string.IsNullOrEmpty(term))
+            {
+                return Ok(new List<ProductSuggestionDto>());
+            }
+
+            try
+            {
+                _logger.LogInformation($"Getting suggestions for: {term}");
+
+                string cacheKey = $"suggest_{term.ToLowerInvariant()}_{limit}";
+                if (_cache.TryGetValue(cacheKey, out List<ProductSuggestionDto>? cachedSuggestions))
+                {
+                    return Ok(cachedSuggestions);
+                }
+
+                var dummyJsonResponse = await FetchProductsAsync(
+                    $"{DUMMY_JSON_BASE_URL}/products/search?q={Uri.EscapeDataString(term)}&limit={limit}&select=title,brand,category,thumbnail");
+
+                var suggestions = dummyJsonResponse.Products
+                    .Select(p => new ProductSuggestionDto
+                    {
+                        Id = p.Id,
+                        Title = p.Title,
+                        Brand = p.Brand,
+                        Category = p.Category,
+                        Thumbnail = p.Thumbnail
+                    })
+                    .ToList();
+
+                _cache.Set(cacheKey, suggestions, new MemoryCacheEntryOptions()
+                    .SetAbsoluteExpiration(TimeSpan.FromMinutes(1)));
+
+                return Ok(suggestions);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, $"Error fetching suggestions for {term}");
+                return StatusCode(500, new { error = "Failed to fetch suggestions" });
+            }
+        }
+
         /// <summary>
         /// GET SINGLE PRODUCT ENDPOINT
         ///
@@ -225,6 +431,104 @@ namespace ProductAPI.Controllers
                 return StatusCode(500, new { error = "Failed to fetch product details" });  // Return 500 status
             }
         }
+
+        /// <summary>
+        /// Fetches a list of products from DummyJSON.
+        /// Throws an HttpRequestException if DummyJSON responds with an error status.
+        /// </summary>
+        private async Task<DummyJsonResponse> FetchProductsAsync(string url)
+        {
+            // "await" means we wait for the response without blocking other operations
+            var response = await _httpClient.GetAsync(url);
+
+            // Check if the request was successful (status code 200-299)
+            // If not, this will throw an exception
+            response.EnsureSuccessStatusCode();
+
+            // DESERIALIZE: Convert the JSON text into C# objects we can work with
+            // Like translating a foreign language menu into English
+            var json = await response.Content.ReadAsStringAsync();
+            return JsonSerializer.Deserialize<DummyJsonResponse>(json, new JsonSerializerOptions
+            {
+                PropertyNameCaseInsensitive = true // Ignore case differences in property names (id vs Id)
+            }) ?? new DummyJsonResponse();
+        }
+
+        /// <summary>
+        /// Price filter: the minimum is inclusive and the maximum exclusive, so neighbouring ranges never overlap.
+        /// </summary>
+        private static bool MatchesPrice(ProductDto product, decimal? minPrice, decimal? maxPrice)
+        {
+            return (!minPrice.HasValue || product.Price >= minPrice.Value)
+                && (!maxPrice.HasValue || product.Price < maxPrice.Value);
+        }
+
+        private static bool MatchesRating(ProductDto product, decimal? minRating)
+        {
+            return !minRating.HasValue || product.Rating >= minRating.Value;
+        }
+
+        /// <summary>
+        /// Counts the results for every price range and rating option.
+        /// Price counts respect the rating filter and vice versa, so each count is what choosing that option would return.
+        /// </summary>
+        private static ProductFacets ComputeFacets(List<ProductDto> products, decimal? minPrice, decimal? maxPrice, decimal? minRating)
+        {
+            var withinRating = products.Where(p => MatchesRating(p, minRating)).ToList();
+            var withinPrice = products.Where(p => MatchesPrice(p, minPrice, maxPrice)).ToList();
+
+            return new ProductFacets
+            {
+                Price = PRICE_RANGES
+                    .Select(range => new PriceFacet
+                    {
+                        Min = range.Min,
+                        Max = range.Max,
+                        Count = withinRating.Count(p => MatchesPrice(p, range.Min, range.Max))
+                    })
+                    .ToList(),
+                Rating = RATING_OPTIONS
+                    .Select(rating => new RatingFacet
+                    {
+                        MinRating = rating,
+                        Count = withinPrice.Count(p => p.Rating >= rating)
+                    })
+                    .ToList()
+            };
+        }
+
+        /// <summary>
+        /// Case-insensitive match of a search term against the product's title, brand and description.
+        /// Used when searching within a category, which DummyJSON can't do for us.
+        /// </summary>
+        private static bool MatchesSearch(ProductDto product, string search)
+        {
+            var term = search.Trim();
+            // Some products have no brand, so guard against nulls from the JSON
+            return new[] { product.Title, product.Brand, product.Description }
+                .Any(field => field?.Contains(term, StringComparison.OrdinalIgnoreCase) == true);
+        }
+
+        /// <summary>
+        /// Sorts products locally the same way DummyJSON would, for results we paginate ourselves.
+        /// </summary>
+        private static IEnumerable<ProductDto> SortProducts(IEnumerable<ProductDto> products, string? sortBy, string? order)
+        {
+            if (string.IsNullOrEmpty(sortBy))
+            {
+                return products;
+            }
+
+            Func<ProductDto, object> key = sortBy switch
+            {
+                "price" => p => p.Price,
+                "rating" => p => p.Rating,
+                "discountPercentage" => p => p.DiscountPercentage,
+                _ => p => p.Title
+            };
+
+            return order == "desc" ? products.OrderByDescending(key) : products.OrderBy(key);
+        }
     }
 
     // ====================================================================================
@@ -245,6 +549,49 @@ namespace ProductAPI.Controllers
         public int Limit { get; set; }                            // Maximum products returned per request
     }
 
+    /// <summary>
+    /// Represents a product category returned by DummyJSON's /products/categories endpoint
+    /// </summary>
+    public class CategoryDto
+    {
+        public string Slug { get; set; } = string.Empty;   // URL-friendly identifier (e.g., "mens-shirts")
+        public string Name { get; set; } = string.Empty;   // Display name (e.g., "Mens Shirts")
+    }
+
+    /// <summary>
+    /// Result counts for each filter option, returned alongside a product list
+    /// </summary>
+    public class ProductFacets
+    {
+        public List<PriceFacet> Price { get; set; } = new();    // One entry per price range
+        public List<RatingFacet> Rating { get; set; } = new();  // One entry per minimum rating
+    }
+
+    public class PriceFacet
+    {
+        public decimal Min { get; set; }    // Inclusive lower bound
+        public decimal? Max { get; set; }   // Exclusive upper bound (null for the open-ended top range)
+        public int Count { get; set; }      // Number of matching products in this range
+    }
+
+    public class RatingFacet
+    {
+        public int MinRating { get; set; }  // e.g. 4 for "4 stars & up"
+        public int Count { get; set; }      // Number of matching products rated at least MinRating
+    }
+
+    /// <summary>
+    /// The few product fields the search suggestion list needs
+    /// </summary>
+    public class ProductSuggestionDto
+    {
+        public int Id { get; set; }
+        public string Title { get; set; } = string.Empty;
+        public string Brand { get; set; } = string.Empty;
+        public string Category { get; set; } = string.Empty;
+        public string Thumbnail { get; set; } = string.Empty;
+    }
+
     /// <summary>
     /// Represents a single product's data structure
     /// Each property corresponds to a field in the product data
@@ -267,5 +614,7 @@ namespace ProductAPI.Controllers
         public List<string> Images { get; set; } = new();                // List of product image URLs
         public int Stock { get; set; }                                   // Number of items in stock
         public decimal DiscountPercentage { get; set; }                  // Current discount percentage (if any)
+        public int MinimumOrderQuantity { get; set; } = 1;               // Smallest quantity that can be ordered at once
+        public string AvailabilityStatus { get; set; } = string.Empty;   // Stock label, e.g. "In Stock" or "Low Stock"
     }
 }
\ No newline at end of file
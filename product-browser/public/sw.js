@@ -0,0 +1,123 @@
+/*
+ * Keeps the app shell and product images available offline. Product data is
+ * not cached here; the persisted React Query cache covers that.
+ * Bump CACHE_VERSION to drop the old caches after changing this file.
+ */
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const IMAGE_CACHE = `images-${CACHE_VERSION}`;
+// Browsers count each opaque (cross-origin) response as several MB of quota
+const MAX_CACHED_IMAGES = 60;
+
+// The registration scope is the app's base URL, e.g. "/ProductBrowser/"
+const APP_ROOT = self.registration.scope;
+
+// Script and stylesheet URLs the built index.html loads, e.g. "/assets/index-1a2b3c.js"
+const ASSET_URL_PATTERN = /(?:src|href)="([^"]*\/assets\/[^"]+)"/g;
+
+// Cache index.html together with the assets it references, so the shell
+// works offline straight after the first visit
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch(APP_ROOT, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`Could not fetch the app shell (${response.status})`);
+  }
+  const html = await response.clone().text();
+  const assets = Array.from(html.matchAll(ASSET_URL_PATTERN), ([, url]) => new URL(url, APP_ROOT).href);
+  await cache.addAll(assets);
+  await cache.put(APP_ROOT, response);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== IMAGE_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache writes are best effort: a full quota must not fail a response that arrived
+const putInCache = (cache, request, response) =>
+  cache.put(request, response).catch(() => undefined);
+
+// Oldest entries go first once the image cache is full
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+// Pages: always try the network so deploys show up, fall back to the cached shell.
+// Every route renders the same index.html, so one cached copy serves them all
+const handleNavigation = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      putInCache(cache, APP_ROOT, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const shell = await cache.match(APP_ROOT);
+    if (shell) {
+      return shell;
+    }
+    throw error;
+  }
+};
+
+// Built assets have content hashes in their names, so a cached copy never goes stale
+const handleAsset = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    putInCache(cache, request, response.clone());
+  }
+  return response;
+};
+
+// Thumbnails and gallery images rarely change; serve them from the cache first.
+// Cross-origin images come back opaque, which is fine to store and replay
+const handleImage = async (request) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    putInCache(cache, request, response.clone())
+      .then(() => trimCache(IMAGE_CACHE, MAX_CACHED_IMAGES))
+      .catch(() => undefined);
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(handleImage(request));
+  } else if (request.url.startsWith(`${APP_ROOT}assets/`)) {
+    event.respondWith(handleAsset(request));
+  }
+  // API requests go straight to the network
+});
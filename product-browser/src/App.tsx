@@ -1,28 +1,90 @@
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClient, useIsRestoring } from '@tanstack/react-query';
+import type { Query } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { DataSourceProvider } from './context/DataSourceProvider';
+import { CartProvider } from './context/CartProvider';
+import { CurrencyProvider } from './context/CurrencyProvider';
+import { WishlistProvider } from './context/WishlistProvider';
+import { RecentlyViewedProvider } from './context/RecentlyViewedProvider';
+import { CompareProvider } from './context/CompareProvider';
 import { ProductPage } from './components/ProductPage';
 import { ProductDetailPage } from './components/ProductDetailPage';
+import { WishlistPage } from './components/WishlistPage';
+import { ComparePage } from './components/ComparePage';
+import { NotFoundPage } from './components/NotFoundPage';
+import { LoadingSpinner } from './components/LoadingSpinner';
+import { isTransientError } from './api/apiError';
+import { productsApiCacheKey } from './api/productsApi';
+import { createIndexedDbPersister } from './utils/queryPersister';
+import { QUERY_CACHE_BUSTER, QUERY_CACHE_MAX_AGE_MS } from './constants/offline';
 import './App.scss';
 
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       refetchOnWindowFocus: false,
+      // Keep results around as long as they are persisted, for offline browsing
+      gcTime: QUERY_CACHE_MAX_AGE_MS,
+      // Only failures that might clear up are retried
+      retry: (failureCount, error) => failureCount < 3 && isTransientError(error),
     },
   },
 });
 
+// Lists and products seen before stay available across reloads and while offline
+const persistOptions = {
+  persister: createIndexedDbPersister(),
+  maxAge: QUERY_CACHE_MAX_AGE_MS,
+  // Query keys do not name the data source, so a cache from another one is discarded
+  buster: `${QUERY_CACHE_BUSTER}:${productsApiCacheKey}`,
+  dehydrateOptions: {
+    // Suggestions are throwaway; only finished results are worth keeping
+    shouldDehydrateQuery: (query: Query) =>
+      query.state.status === 'success' && query.queryKey[0] !== 'suggestions',
+  },
+};
+
 const basename = import.meta.env.BASE_URL;
 
+// Until the saved cache is read back every query looks empty, which would
+// flash "no products" and "not found" states
+const AppRoutes: React.FC = () => {
+  const isRestoring = useIsRestoring();
+
+  if (isRestoring) {
+    return <LoadingSpinner label="Loading..." />;
+  }
+
+  return (
+    <Routes>
+      <Route path="/" element={<ProductPage />} />
+      <Route path="/product/:id" element={<ProductDetailPage />} />
+      <Route path="/wishlist" element={<WishlistPage />} />
+      <Route path="/compare" element={<ComparePage />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
 export default function App() {
   return (
-    <QueryClientProvider client={queryClient}>
-      <BrowserRouter basename={basename}>
-        <Routes>
-          <Route path="/" element={<ProductPage />} />
-          <Route path="/product/:id" element={<ProductDetailPage />} />
-        </Routes>
-      </BrowserRouter>
-    </QueryClientProvider>
+    <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
+      <DataSourceProvider>
+        <CurrencyProvider>
+          <CartProvider>
+            <WishlistProvider>
+              <RecentlyViewedProvider>
+                <CompareProvider>
+                  <BrowserRouter basename={basename}>
+                    <AppRoutes />
+                  </BrowserRouter>
+                </CompareProvider>
+              </RecentlyViewedProvider>
+            </WishlistProvider>
+          </CartProvider>
+        </CurrencyProvider>
+      </DataSourceProvider>
+    </PersistQueryClientProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import type { AxiosResponse } from 'axios';
+import { ApiError, isApiError, isTransientError, toApiError } from '../apiError';
+
+const responseError = (status: number, headers: Record<string, string> = {}) => {
+  const response = {
+    status,
+    statusText: '',
+    headers,
+    config: { headers: new AxiosHeaders() },
+    data: {}
+  } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, undefined, undefined, undefined, response);
+};
+
+describe('toApiError', () => {
+  it('should classify a 404 as notFound', () => {
+    const error = toApiError(responseError(404));
+
+    expect(isApiError(error)).toBe(true);
+    expect(error).toMatchObject({ kind: 'notFound', status: 404 });
+  });
+
+  it('should classify a 429 as rateLimited and read Retry-After', () => {
+    expect(toApiError(responseError(429, { 'retry-after': '30' })))
+      .toMatchObject({ kind: 'rateLimited', status: 429, retryAfter: 30 });
+    expect(toApiError(responseError(429, { 'retry-after': 'soon' })))
+      .toMatchObject({ kind: 'rateLimited', retryAfter: undefined });
+  });
+
+  it('should classify 5xx responses as server errors', () => {
+    expect(toApiError(responseError(500))).toMatchObject({ kind: 'server', status: 500 });
+    expect(toApiError(responseError(503))).toMatchObject({ kind: 'server', status: 503 });
+  });
+
+  it('should classify other statuses as unknown', () => {
+    expect(toApiError(responseError(400))).toMatchObject({ kind: 'unknown', status: 400 });
+  });
+
+  it('should classify timeouts', () => {
+    const error = new AxiosError('timeout of 15000ms exceeded', AxiosError.ECONNABORTED);
+
+    expect(toApiError(error)).toMatchObject({ kind: 'timeout', status: undefined });
+  });
+
+  it('should classify requests without a response as network errors', () => {
+    const error = new AxiosError('Network Error', AxiosError.ERR_NETWORK);
+
+    expect(toApiError(error)).toMatchObject({ kind: 'network', message: 'Network Error' });
+  });
+
+  it('should keep the original error as the cause', () => {
+    const original = responseError(500);
+
+    expect((toApiError(original) as ApiError).cause).toBe(original);
+  });
+
+  it('should pass cancellations and ApiErrors through unchanged', () => {
+    const canceled = new CanceledError();
+    const apiError = new ApiError('server', 'Boom', { status: 502 });
+
+    expect(toApiError(canceled)).toBe(canceled);
+    expect(toApiError(apiError)).toBe(apiError);
+  });
+
+  it('should wrap anything else as unknown', () => {
+    expect(toApiError(new Error('Oops'))).toMatchObject({ kind: 'unknown', message: 'Oops' });
+    expect(toApiError('nope')).toMatchObject({ kind: 'unknown', message: 'Unexpected error' });
+  });
+});
+
+describe('isTransientError', () => {
+  it('should retry failures that may clear up', () => {
+    for (const kind of ['network', 'timeout', 'rateLimited', 'server'] as const) {
+      expect(isTransientError(new ApiError(kind, 'Failed'))).toBe(true);
+    }
+  });
+
+  it('should not retry failures that will repeat', () => {
+    for (const kind of ['notFound', 'invalidResponse', 'unknown'] as const) {
+      expect(isTransientError(new ApiError(kind, 'Failed'))).toBe(false);
+    }
+  });
+
+  it('should retry errors that were never classified', () => {
+    expect(isTransientError(new Error('Boom'))).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createFixtureDataSource } from '../fixtureDataSource';
+import { FIXTURE_PRODUCTS } from '../fixtures';
+import type { Product } from '../../types/product';
+
+const makeProduct = (id: number, overrides: Partial<Product> = {}): Product => ({
+  id,
+  title: `Product ${id}`,
+  description: 'Description',
+  price: id * 10,
+  thumbnail: `thumb-${id}.jpg`,
+  rating: 4,
+  brand: 'Brand',
+  category: 'gadgets',
+  ...overrides
+});
+
+const products = [
+  makeProduct(1, { title: 'Red Phone', brand: 'Acme', category: 'smartphones', rating: 4.5 }),
+  makeProduct(2, { title: 'Blue Phone', brand: 'Acme', category: 'smartphones', rating: 3.5 }),
+  makeProduct(3, { title: 'Laptop', brand: 'Zen', category: 'laptops', rating: 4.8 }),
+  makeProduct(4, { title: 'Kitchen Lamp', brand: 'Glow', category: 'home-decoration', rating: 2 })
+];
+
+describe('createFixtureDataSource', () => {
+  const dataSource = createFixtureDataSource(products);
+
+  it('should page through the products', async () => {
+    const response = await dataSource.getProducts(2, '', { pageSize: 3 });
+
+    expect(response.products.map((product) => product.id)).toEqual([4]);
+    expect(response).toMatchObject({ total: 4, page: 2, totalPages: 2 });
+  });
+
+  it('should combine search and category', async () => {
+    const response = await dataSource.getProducts(1, 'red', { category: 'smartphones' });
+
+    expect(response.products.map((product) => product.id)).toEqual([1]);
+    expect(response.total).toBe(1);
+  });
+
+  it('should sort and filter, counting facets before the filters are applied', async () => {
+    const response = await dataSource.getProducts(1, '', {
+      sort: 'price-desc',
+      filters: { minRating: 4 }
+    });
+
+    expect(response.products.map((product) => product.id)).toEqual([3, 1]);
+    expect(response.facets?.rating.find((facet) => facet.minRating === 3)?.count).toBe(3);
+  });
+
+  it('should return a product by id', async () => {
+    await expect(dataSource.getProduct(3)).resolves.toEqual(products[2]);
+  });
+
+  it('should reject unknown ids with a notFound ApiError', async () => {
+    await expect(dataSource.getProduct(99)).rejects.toMatchObject({ kind: 'notFound', status: 404 });
+  });
+
+  it('should suggest products by title, brand or category', async () => {
+    const suggestions = await dataSource.getSuggestions('acme');
+
+    expect(suggestions).toEqual([
+      { id: 1, title: 'Red Phone', brand: 'Acme', category: 'smartphones', thumbnail: 'thumb-1.jpg' },
+      { id: 2, title: 'Blue Phone', brand: 'Acme', category: 'smartphones', thumbnail: 'thumb-2.jpg' }
+    ]);
+  });
+
+  it('should list the categories of its products', async () => {
+    await expect(dataSource.getCategories()).resolves.toEqual([
+      { slug: 'home-decoration', name: 'Home Decoration' },
+      { slug: 'laptops', name: 'Laptops' },
+      { slug: 'smartphones', name: 'Smartphones' }
+    ]);
+  });
+});
+
+describe('FIXTURE_PRODUCTS', () => {
+  it('should have unique ids and inline images', () => {
+    const ids = FIXTURE_PRODUCTS.map((product) => product.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(FIXTURE_PRODUCTS.every((product) => product.thumbnail.startsWith('data:image/svg+xml'))).toBe(true);
+  });
+});
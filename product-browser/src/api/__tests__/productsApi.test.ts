@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { resolveDataSourceKind } from '../productsApi';
+
+describe('resolveDataSourceKind', () => {
+  it('should use the configured data source', () => {
+    expect(resolveDataSourceKind('fixtures', 'https://dummyjson.com')).toBe('fixtures');
+    expect(resolveDataSourceKind('backend', 'https://dummyjson.com')).toBe('backend');
+    expect(resolveDataSourceKind('dummyjson', 'http://localhost:5000/api')).toBe('dummyjson');
+  });
+
+  it('should infer the source from the API base URL otherwise', () => {
+    expect(resolveDataSourceKind(undefined, 'https://dummyjson.com')).toBe('dummyjson');
+    expect(resolveDataSourceKind(undefined, 'http://localhost:5000/api')).toBe('backend');
+    expect(resolveDataSourceKind('graphql', 'http://localhost:5000/api')).toBe('backend');
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ResponseValidationError,
+  parseCategories,
+  parseDummyJsonList,
+  parseFacetSample,
+  parseProduct,
+  parseProductsResponse,
+  parseSuggestions
+} from '../validation';
+
+const validProduct = {
+  id: 1,
+  title: 'iPhone 9',
+  description: 'An apple mobile',
+  price: 549,
+  thumbnail: 'thumb.jpg',
+  rating: 4.69,
+  brand: 'Apple',
+  category: 'smartphones'
+};
+
+const validationError = (parse: () => unknown): ResponseValidationError => {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof ResponseValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a ResponseValidationError');
+};
+
+describe('parseProduct', () => {
+  it('should accept a valid product', () => {
+    expect(parseProduct({ ...validProduct, stock: 5, images: ['a.jpg'] })).toEqual({
+      ...validProduct,
+      stock: 5,
+      images: ['a.jpg']
+    });
+  });
+
+  it('should reject missing required fields with the path of the field', () => {
+    const error = validationError(() => parseProduct({ ...validProduct, price: undefined }));
+
+    expect(error.path).toBe('product.price');
+    expect(error.kind).toBe('invalidResponse');
+    expect(error.message).toBe('Invalid API response: product.price should be a number');
+  });
+
+  it('should reject ids that are not positive integers', () => {
+    expect(validationError(() => parseProduct({ ...validProduct, id: 1.5 })).path).toBe('product.id');
+    expect(validationError(() => parseProduct({ ...validProduct, id: 'abc' })).path).toBe('product.id');
+  });
+
+  it('should reject payloads that are not objects', () => {
+    expect(validationError(() => parseProduct(null)).path).toBe('product');
+    expect(validationError(() => parseProduct([validProduct])).path).toBe('product');
+  });
+
+  it('should coerce numeric strings', () => {
+    expect(parseProduct({ ...validProduct, id: '7', price: '12.50', stock: '3' }))
+      .toMatchObject({ id: 7, price: 12.5, stock: 3 });
+  });
+
+  it('should default missing optional text and rating', () => {
+    const { brand, description, thumbnail, category, rating } = parseProduct({
+      id: 2,
+      title: 'Apples',
+      price: 1.99,
+      brand: null
+    });
+
+    expect({ brand, description, thumbnail, category, rating }).toEqual({
+      brand: '',
+      description: '',
+      thumbnail: '',
+      category: '',
+      rating: 0
+    });
+  });
+
+  it('should coerce images to a list of urls or drop them', () => {
+    expect(parseProduct({ ...validProduct, images: ['a.jpg', null, '', 3, 'b.jpg'] }).images)
+      .toEqual(['a.jpg', 'b.jpg']);
+    expect(parseProduct({ ...validProduct, images: [] }).images).toBeUndefined();
+    expect(parseProduct({ ...validProduct, images: 'a.jpg' }).images).toBeUndefined();
+    expect(parseProduct({ ...validProduct, images: null }).images).toBeUndefined();
+  });
+
+  it('should drop stock that is not a whole, non-negative number', () => {
+    expect(parseProduct({ ...validProduct, stock: 0 }).stock).toBe(0);
+    expect(parseProduct({ ...validProduct, stock: -1 }).stock).toBeUndefined();
+    expect(parseProduct({ ...validProduct, stock: 2.5 }).stock).toBeUndefined();
+    expect(parseProduct({ ...validProduct, stock: 'many' }).stock).toBeUndefined();
+    expect(parseProduct({ ...validProduct, stock: null }).stock).toBeUndefined();
+  });
+
+  it('should keep discountPercentage only between 0 and 100', () => {
+    expect(parseProduct({ ...validProduct, discountPercentage: 12.96 }).discountPercentage).toBe(12.96);
+    expect(parseProduct({ ...validProduct, discountPercentage: '10' }).discountPercentage).toBe(10);
+    expect(parseProduct({ ...validProduct, discountPercentage: 0 }).discountPercentage).toBe(0);
+    expect(parseProduct({ ...validProduct, discountPercentage: 150 }).discountPercentage).toBeUndefined();
+    expect(parseProduct({ ...validProduct, discountPercentage: -5 }).discountPercentage).toBeUndefined();
+    expect(parseProduct({ ...validProduct, discountPercentage: null }).discountPercentage).toBeUndefined();
+  });
+
+  it('should drop unknown availability statuses', () => {
+    expect(parseProduct({ ...validProduct, availabilityStatus: 'Low Stock' }).availabilityStatus)
+      .toBe('Low Stock');
+    expect(parseProduct({ ...validProduct, availabilityStatus: 'Sold out' }).availabilityStatus)
+      .toBeUndefined();
+  });
+});
+
+describe('parseProductsResponse', () => {
+  const validResponse = {
+    products: [validProduct],
+    total: 1,
+    page: 1,
+    totalPages: 1,
+    facets: {
+      price: [{ min: 0, max: 25, count: 1 }, { min: 25, max: null, count: 0 }],
+      rating: [{ minRating: 4, count: 1 }]
+    }
+  };
+
+  it('should accept a valid page of results', () => {
+    expect(parseProductsResponse(validResponse)).toEqual(validResponse);
+  });
+
+  it('should point at the product that failed validation', () => {
+    const response = { ...validResponse, products: [validProduct, { ...validProduct, title: 42 }] };
+
+    expect(validationError(() => parseProductsResponse(response)).path).toBe('products[1].title');
+  });
+
+  it('should reject a response without a product list or totals', () => {
+    expect(validationError(() => parseProductsResponse({ ...validResponse, products: null })).path)
+      .toBe('products');
+    expect(validationError(() => parseProductsResponse({ ...validResponse, totalPages: undefined })).path)
+      .toBe('totalPages');
+  });
+
+  it('should drop malformed facets instead of failing', () => {
+    expect(parseProductsResponse({ ...validResponse, facets: 'none' }).facets).toBeUndefined();
+    expect(parseProductsResponse({
+      ...validResponse,
+      facets: { price: [{ min: 0 }], rating: [{ minRating: 4, count: 1 }] }
+    }).facets).toEqual({ price: [], rating: [{ minRating: 4, count: 1 }] });
+  });
+});
+
+describe('DummyJSON payloads', () => {
+  it('should read a product list', () => {
+    expect(parseDummyJsonList({ products: [validProduct], total: 100, skip: 0, limit: 1 }))
+      .toEqual({ products: [validProduct], total: 100 });
+  });
+
+  it('should read the price and rating sample used for facets', () => {
+    expect(parseFacetSample({ products: [{ price: 10, rating: 4.5 }, { price: '5' }] }))
+      .toEqual([{ price: 10, rating: 4.5 }, { price: 5, rating: 0 }]);
+    expect(validationError(() => parseFacetSample({ products: [{ rating: 3 }] })).path)
+      .toBe('products[0].price');
+  });
+});
+
+describe('parseSuggestions', () => {
+  it('should keep only the fields the suggestion list needs', () => {
+    expect(parseSuggestions([{ ...validProduct, price: 1 }])).toEqual([{
+      id: 1,
+      title: 'iPhone 9',
+      brand: 'Apple',
+      category: 'smartphones',
+      thumbnail: 'thumb.jpg'
+    }]);
+  });
+
+  it('should reject suggestions without a title', () => {
+    expect(validationError(() => parseSuggestions([{ id: 1 }])).path).toBe('suggestions[0].title');
+  });
+
+  it('should reject suggestions whose id is not a positive integer', () => {
+    for (const id of [0, -3, 1.5]) {
+      expect(validationError(() => parseSuggestions([{ id, title: 'Phone' }])).path).toBe('suggestions[0].id');
+    }
+  });
+});
+
+describe('parseCategories', () => {
+  it('should keep the slug and name of each category', () => {
+    expect(parseCategories([{ slug: 'beauty', name: 'Beauty', url: 'https://example.com' }]))
+      .toEqual([{ slug: 'beauty', name: 'Beauty' }]);
+  });
+
+  it('should reject a body that is not a list', () => {
+    expect(validationError(() => parseCategories({ categories: [] })).path).toBe('categories');
+  });
+
+  it('should reject categories without a slug', () => {
+    expect(validationError(() => parseCategories([{ name: 'Beauty' }])).path).toBe('categories[0].slug');
+  });
+});
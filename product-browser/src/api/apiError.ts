@@ -0,0 +1,99 @@
+import { isAxiosError, isCancel } from 'axios';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'notFound'
+  | 'rateLimited'
+  | 'server'
+  | 'invalidResponse'
+  | 'unknown';
+
+/**
+ * A failed API request, classified so the UI can explain what went wrong
+ * and offer the right way out
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  // HTTP status, when the server answered
+  readonly status?: number;
+  // Seconds to wait before retrying, from a 429's Retry-After header
+  readonly retryAfter?: number;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; retryAfter?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+const classifyStatus = (status: number): ApiErrorKind => {
+  if (status === 404) {
+    return 'notFound';
+  }
+  if (status === 429) {
+    return 'rateLimited';
+  }
+  return status >= 500 ? 'server' : 'unknown';
+};
+
+const parseRetryAfter = (value: unknown): number | undefined => {
+  const seconds = Number(value);
+  return typeof value === 'string' && value.trim() !== '' && Number.isFinite(seconds) && seconds >= 0
+    ? seconds
+    : undefined;
+};
+
+/**
+ * Wrap whatever a request threw in an ApiError. Cancellations are returned
+ * untouched so React Query still recognises them
+ */
+export const toApiError = (error: unknown): unknown => {
+  if (error instanceof ApiError || isCancel(error)) {
+    return error;
+  }
+
+  if (!isAxiosError(error)) {
+    return new ApiError('unknown', error instanceof Error ? error.message : 'Unexpected error', {
+      cause: error,
+    });
+  }
+
+  if (error.response) {
+    const { status, headers } = error.response;
+    return new ApiError(classifyStatus(status), error.message, {
+      status,
+      retryAfter: status === 429 ? parseRetryAfter(headers?.['retry-after']) : undefined,
+      cause: error,
+    });
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new ApiError('timeout', error.message, { cause: error });
+  }
+
+  // No response at all: offline, DNS, CORS or the server is down
+  return new ApiError('network', error.message, { cause: error });
+};
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Failures the same request may get past a moment later
+const TRANSIENT_KINDS: readonly ApiErrorKind[] = ['network', 'timeout', 'rateLimited', 'server'];
+
+/**
+ * Whether retrying can help. A missing product, a malformed response or a
+ * rejected request will fail the same way again
+ */
+export const isTransientError = (error: unknown): boolean =>
+  !isApiError(error) || TRANSIENT_KINDS.includes(error.kind);
+
+// Stands in for a request React Query paused because the browser is offline
+// and nothing was cached, so it can be explained like any network failure
+export const OFFLINE_ERROR = new ApiError('network', 'The browser is offline');
@@ -0,0 +1,42 @@
+import { createHttpClient, toSortParams } from './httpClient';
+import { parseCategories, parseProduct, parseProductsResponse, parseSuggestions } from './validation';
+import type { ProductDataSource } from './dataSource';
+import { DEFAULT_PAGE_SIZE } from '../constants/pagination';
+import { SUGGESTION_LIMIT } from '../constants/search';
+
+/**
+ * Talks to the ProductAPI backend, which pages, filters and counts facets
+ * on the server
+ */
+export const createBackendDataSource = (baseUrl: string): ProductDataSource => {
+  const client = createHttpClient(baseUrl);
+
+  return {
+    getProducts: async (page = 1, search = '', options = {}, signal) => {
+      const { category, sort, filters = {}, pageSize = DEFAULT_PAGE_SIZE } = options;
+      const { data } = await client.get<unknown>('/products', {
+        params: { page, pageSize, search, category, ...toSortParams(sort), ...filters },
+        signal
+      });
+      return parseProductsResponse(data);
+    },
+
+    getProduct: async (id, signal) => {
+      const { data } = await client.get<unknown>(`/products/${id}`, { signal });
+      return parseProduct(data);
+    },
+
+    getSuggestions: async (query, signal) => {
+      const { data } = await client.get<unknown>('/products/suggest', {
+        params: { q: query, limit: SUGGESTION_LIMIT },
+        signal
+      });
+      return parseSuggestions(data);
+    },
+
+    getCategories: async (signal) => {
+      const { data } = await client.get<unknown>('/products/categories', { signal });
+      return parseCategories(data);
+    }
+  };
+};
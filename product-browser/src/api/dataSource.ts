@@ -0,0 +1,27 @@
+import type {
+  Category,
+  Product,
+  ProductQueryOptions,
+  ProductsResponse,
+  ProductSuggestion
+} from '../types/product';
+
+/**
+ * Where product data comes from. The hooks only talk to this interface, so
+ * the DummyJSON API, the custom backend or in-memory fixtures can be swapped
+ * through DataSourceProvider
+ */
+export interface ProductDataSource {
+  getProducts: (
+    page?: number,
+    search?: string,
+    options?: ProductQueryOptions,
+    signal?: AbortSignal
+  ) => Promise<ProductsResponse>;
+  getProduct: (id: number, signal?: AbortSignal) => Promise<Product>;
+  // Lightweight search for the suggestion list; pass the signal so stale lookups are cancelled
+  getSuggestions: (query: string, signal?: AbortSignal) => Promise<ProductSuggestion[]>;
+  getCategories: (signal?: AbortSignal) => Promise<Category[]>;
+}
+
+export type DataSourceKind = 'dummyjson' | 'backend' | 'fixtures';
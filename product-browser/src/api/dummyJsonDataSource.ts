@@ -0,0 +1,91 @@
+import { createHttpClient, toSortParams } from './httpClient';
+import { parseCategories, parseDummyJsonList, parseFacetSample, parseProduct, parseSuggestions } from './validation';
+import type { ProductDataSource } from './dataSource';
+import { DEFAULT_PAGE_SIZE } from '../constants/pagination';
+import { SUGGESTION_LIMIT } from '../constants/search';
+import { applyFilters, computeFacets, hasActiveFilters, matchesSearch, sortProducts } from '../utils/filters';
+
+/**
+ * Talks to dummyjson.com directly. DummyJSON pages with skip/limit and has
+ * no price or rating filters, so some queries are completed locally
+ */
+export const createDummyJsonDataSource = (baseUrl: string): ProductDataSource => {
+  const client = createHttpClient(baseUrl);
+
+  return {
+    getProducts: async (page = 1, search = '', options = {}, signal) => {
+      const { category, sort, filters = {}, pageSize = DEFAULT_PAGE_SIZE } = options;
+      const limit = pageSize;
+      const skip = (page - 1) * limit;
+
+      const url = category
+        ? `/products/category/${encodeURIComponent(category)}`
+        : search
+          ? '/products/search'
+          : '/products';
+      const q = category ? undefined : search || undefined;
+
+      // DummyJSON has no price/rating filters and cannot combine search with
+      // a category, so those cases fetch every match and page locally
+      if (hasActiveFilters(filters) || (category && search)) {
+        // limit=0 returns the whole result set
+        const response = await client.get<unknown>(url, {
+          params: { q, limit: 0 },
+          signal
+        });
+        const data = parseDummyJsonList(response.data);
+        const candidates = category && search
+          ? data.products.filter((product) => matchesSearch(product, search))
+          : data.products;
+        const matches = sortProducts(applyFilters(candidates, filters), sort);
+
+        return {
+          products: matches.slice(skip, skip + limit),
+          total: matches.length,
+          page,
+          totalPages: Math.ceil(matches.length / limit),
+          facets: computeFacets(candidates, filters)
+        };
+      }
+
+      const [listResponse, facetResponse] = await Promise.all([
+        client.get<unknown>(url, {
+          params: { q, limit, skip, ...toSortParams(sort) },
+          signal
+        }),
+        // Facets need every match, but only their price and rating
+        client.get<unknown>(url, {
+          params: { q, limit: 0, select: 'price,rating' },
+          signal
+        })
+      ]);
+      const data = parseDummyJsonList(listResponse.data);
+
+      return {
+        products: data.products,
+        total: data.total,
+        page,
+        totalPages: Math.ceil(data.total / limit),
+        facets: computeFacets(parseFacetSample(facetResponse.data))
+      };
+    },
+
+    getProduct: async (id, signal) => {
+      const { data } = await client.get<unknown>(`/products/${id}`, { signal });
+      return parseProduct(data);
+    },
+
+    getSuggestions: async (query, signal) => {
+      const { data } = await client.get<{ products?: unknown }>('/products/search', {
+        params: { q: query, limit: SUGGESTION_LIMIT, select: 'title,brand,category,thumbnail' },
+        signal
+      });
+      return parseSuggestions(data?.products);
+    },
+
+    getCategories: async (signal) => {
+      const { data } = await client.get<unknown>('/products/categories', { signal });
+      return parseCategories(data);
+    }
+  };
+};
@@ -0,0 +1,59 @@
+import { ApiError } from './apiError';
+import type { ProductDataSource } from './dataSource';
+import { DEFAULT_PAGE_SIZE } from '../constants/pagination';
+import { SUGGESTION_LIMIT } from '../constants/search';
+import { applyFilters, computeFacets, matchesSearch, sortProducts } from '../utils/filters';
+import type { Category, Product } from '../types/product';
+
+// "home-decoration" -> "Home Decoration"
+const toCategoryName = (slug: string): string =>
+  slug
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+/**
+ * Serves a fixed product list from memory, with the same search, filter,
+ * sort and paging behaviour as the real APIs. Used by tests and offline demos
+ */
+export const createFixtureDataSource = (products: Product[]): ProductDataSource => ({
+  getProducts: async (page = 1, search = '', options = {}) => {
+    const { category, sort, filters = {}, pageSize = DEFAULT_PAGE_SIZE } = options;
+    const candidates = products.filter((product) =>
+      (!category || product.category === category) && (!search || matchesSearch(product, search))
+    );
+    const matches = sortProducts(applyFilters(candidates, filters), sort);
+    const skip = (page - 1) * pageSize;
+
+    return {
+      products: matches.slice(skip, skip + pageSize),
+      total: matches.length,
+      page,
+      totalPages: Math.ceil(matches.length / pageSize),
+      facets: computeFacets(candidates, filters)
+    };
+  },
+
+  getProduct: async (id) => {
+    const product = products.find((candidate) => candidate.id === id);
+    if (!product) {
+      throw new ApiError('notFound', `Product ${id} not found`, { status: 404 });
+    }
+    return product;
+  },
+
+  getSuggestions: async (query) => {
+    const term = query.trim().toLowerCase();
+    return products
+      .filter((product) =>
+        [product.title, product.brand, product.category].some((field) => field.toLowerCase().includes(term))
+      )
+      .slice(0, SUGGESTION_LIMIT)
+      .map(({ id, title, brand, category, thumbnail }) => ({ id, title, brand, category, thumbnail }));
+  },
+
+  getCategories: async (): Promise<Category[]> => {
+    const slugs = [...new Set(products.map((product) => product.category))].sort();
+    return slugs.map((slug) => ({ slug, name: toCategoryName(slug) }));
+  }
+});
@@ -0,0 +1,177 @@
+import type { Product } from '../types/product';
+
+// Inline SVG so the fixture catalogue renders without any network access
+const placeholderImage = (label: string, color: string): string =>
+  `data:image/svg+xml,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300" viewBox="0 0 300 300">` +
+      `<rect width="300" height="300" fill="${color}"/>` +
+      `<text x="150" y="160" font-family="sans-serif" font-size="22" fill="#fff" text-anchor="middle">${label}</text>` +
+      `</svg>`
+  )}`;
+
+interface FixtureSeed extends Omit<Product, 'thumbnail' | 'images'> {
+  color: string;
+}
+
+const SEEDS: FixtureSeed[] = [
+  {
+    id: 1,
+    title: 'Aurora Phone X',
+    description: 'A 6.1 inch smartphone with an all-day battery and a dual camera.',
+    price: 699,
+    rating: 4.6,
+    brand: 'Aurora',
+    category: 'smartphones',
+    stock: 24,
+    discountPercentage: 8,
+    minimumOrderQuantity: 1,
+    availabilityStatus: 'In Stock',
+    color: '#3f51b5'
+  },
+  {
+    id: 2,
+    title: 'Aurora Phone Mini',
+    description: 'The compact member of the Aurora family, small enough for any pocket.',
+    price: 499,
+    rating: 4.2,
+    brand: 'Aurora',
+    category: 'smartphones',
+    stock: 4,
+    availabilityStatus: 'Low Stock',
+    color: '#5c6bc0'
+  },
+  {
+    id: 3,
+    title: 'Pixelate 8',
+    description: 'Clean software, a great night mode and seven years of updates.',
+    price: 599,
+    rating: 4.4,
+    brand: 'Pixelate',
+    category: 'smartphones',
+    stock: 0,
+    discountPercentage: 15,
+    availabilityStatus: 'Out of Stock',
+    color: '#00897b'
+  },
+  {
+    id: 4,
+    title: 'Nimbus Book 14',
+    description: 'A 14 inch ultrabook weighing just over a kilogram.',
+    price: 1199,
+    rating: 4.7,
+    brand: 'Nimbus',
+    category: 'laptops',
+    stock: 12,
+    discountPercentage: 5,
+    availabilityStatus: 'In Stock',
+    color: '#455a64'
+  },
+  {
+    id: 5,
+    title: 'Nimbus Book Pro 16',
+    description: 'A 16 inch workstation for video editing and development.',
+    price: 2399,
+    rating: 4.8,
+    brand: 'Nimbus',
+    category: 'laptops',
+    stock: 6,
+    availabilityStatus: 'In Stock',
+    color: '#263238'
+  },
+  {
+    id: 6,
+    title: 'Volt Chromebook',
+    description: 'An affordable laptop for school work and browsing.',
+    price: 329,
+    rating: 3.9,
+    brand: 'Volt',
+    category: 'laptops',
+    stock: 40,
+    discountPercentage: 20,
+    availabilityStatus: 'In Stock',
+    color: '#6d4c41'
+  },
+  {
+    id: 7,
+    title: 'Orchard Apples',
+    description: 'A one kilogram bag of crisp red apples.',
+    price: 3.49,
+    rating: 4.1,
+    brand: 'Orchard',
+    category: 'groceries',
+    stock: 120,
+    minimumOrderQuantity: 2,
+    availabilityStatus: 'In Stock',
+    color: '#c62828'
+  },
+  {
+    id: 8,
+    title: 'Morning Roast Coffee',
+    description: 'Whole coffee beans with notes of chocolate and caramel.',
+    price: 12.99,
+    rating: 4.5,
+    brand: 'Morning Roast',
+    category: 'groceries',
+    stock: 35,
+    discountPercentage: 10,
+    availabilityStatus: 'In Stock',
+    color: '#4e342e'
+  },
+  {
+    id: 9,
+    title: 'Green Leaf Tea',
+    description: 'Twenty sachets of green tea.',
+    price: 4.25,
+    rating: 3.6,
+    brand: 'Green Leaf',
+    category: 'groceries',
+    stock: 3,
+    availabilityStatus: 'Low Stock',
+    color: '#2e7d32'
+  },
+  {
+    id: 10,
+    title: 'Linen Table Lamp',
+    description: 'A warm table lamp with a linen shade.',
+    price: 45,
+    rating: 4.3,
+    brand: 'Hearth',
+    category: 'home-decoration',
+    stock: 18,
+    availabilityStatus: 'In Stock',
+    color: '#f9a825'
+  },
+  {
+    id: 11,
+    title: 'Ceramic Vase',
+    description: 'A hand-glazed vase, 30 cm tall.',
+    price: 29.5,
+    rating: 4.0,
+    brand: 'Hearth',
+    category: 'home-decoration',
+    stock: 9,
+    discountPercentage: 12,
+    availabilityStatus: 'In Stock',
+    color: '#8e24aa'
+  },
+  {
+    id: 12,
+    title: 'Woven Wall Hanging',
+    description: 'A cotton macrame wall hanging.',
+    price: 64,
+    rating: 2.8,
+    brand: 'Loom & Co',
+    category: 'home-decoration',
+    stock: 7,
+    availabilityStatus: 'In Stock',
+    color: '#ad1457'
+  }
+];
+
+/**
+ * A small catalogue served by the fixture data source
+ */
+export const FIXTURE_PRODUCTS: Product[] = SEEDS.map(({ color, ...product }) => {
+  const image = placeholderImage(product.title, color);
+  return { ...product, thumbnail: image, images: [image] };
+});
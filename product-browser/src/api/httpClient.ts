@@ -0,0 +1,27 @@
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { toApiError } from './apiError';
+import { SORT_OPTIONS } from '../constants/sorting';
+import type { ProductSort } from '../types/product';
+
+// Give up on a request that hangs rather than spinning forever
+export const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Axios instance shared by the HTTP data sources. Every failure reaches the
+ * hooks as an ApiError, so the UI can tell a 404 from a dropped connection
+ */
+export const createHttpClient = (baseURL: string): AxiosInstance => {
+  const client = axios.create({ baseURL, timeout: REQUEST_TIMEOUT_MS });
+  client.interceptors.response.use(undefined, (error) => Promise.reject(toApiError(error)));
+  return client;
+};
+
+// Translate a sort option into the sortBy/order query params both APIs accept
+export const toSortParams = (sort?: ProductSort) => {
+  if (!sort) {
+    return {};
+  }
+  const { sortBy, order } = SORT_OPTIONS[sort];
+  return { sortBy, order };
+};
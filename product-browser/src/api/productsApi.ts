@@ -1,46 +1,41 @@
-import axios from 'axios';
-import type { Product, ProductsResponse } from '../types/product';
+import { createBackendDataSource } from './backendDataSource';
+import { createDummyJsonDataSource } from './dummyJsonDataSource';
+import { createFixtureDataSource } from './fixtureDataSource';
+import { FIXTURE_PRODUCTS } from './fixtures';
+import type { DataSourceKind, ProductDataSource } from './dataSource';
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api';
 
-// Detect if we're using DummyJSON directly or a custom backend
-const isDummyJsonDirect = API_BASE.includes('dummyjson.com');
+const DATA_SOURCE_KINDS: readonly DataSourceKind[] = ['dummyjson', 'backend', 'fixtures'];
 
-interface DummyJsonListResponse {
-  products: Product[];
-  total: number;
-  skip: number;
-  limit: number;
-}
-
-export const productsApi = {
-  getProducts: async (page: number = 1, search: string = ''): Promise<ProductsResponse> => {
-    if (isDummyJsonDirect) {
-      const limit = 12;
-      const skip = (page - 1) * limit;
-      
-      const url = search
-        ? `${API_BASE}/products/search?q=${search}&limit=${limit}&skip=${skip}`
-        : `${API_BASE}/products?limit=${limit}&skip=${skip}`;
-      
-      const { data } = await axios.get<DummyJsonListResponse>(url);
-      
-      return {
-        products: data.products,
-        total: data.total,
-        page,
-        totalPages: Math.ceil(data.total / limit)
-      };
-    } else {
-      const { data } = await axios.get<ProductsResponse>(`${API_BASE}/products`, {
-        params: { page, search }
-      });
-      return data;
-    }
-  },
+/**
+ * Pick the data source from VITE_DATA_SOURCE. Without it, a DummyJSON base URL
+ * selects the DummyJSON adapter and anything else the custom backend
+ */
+export const resolveDataSourceKind = (configured: string | undefined, apiBase: string): DataSourceKind => {
+  const kind = DATA_SOURCE_KINDS.find((candidate) => candidate === configured);
+  if (kind) {
+    return kind;
+  }
+  return apiBase.includes('dummyjson.com') ? 'dummyjson' : 'backend';
+};
 
-  getProduct: async (id: number): Promise<Product> => {
-        const { data } = await axios.get(`${API_BASE}/products/${id}`);
-    return data;
+export const createDataSource = (kind: DataSourceKind, apiBase: string): ProductDataSource => {
+  switch (kind) {
+    case 'dummyjson':
+      return createDummyJsonDataSource(apiBase);
+    case 'fixtures':
+      return createFixtureDataSource(FIXTURE_PRODUCTS);
+    default:
+      return createBackendDataSource(apiBase);
   }
-};
\ No newline at end of file
+};
+
+const productsApiKind = resolveDataSourceKind(import.meta.env.VITE_DATA_SOURCE, API_BASE);
+
+// The configured data source, used unless a DataSourceProvider supplies another
+export const productsApi: ProductDataSource = createDataSource(productsApiKind, API_BASE);
+
+// Names where product data comes from, e.g. "backend:http://localhost:5000/api",
+// so data cached from one source is not shown after switching to another
+export const productsApiCacheKey = `${productsApiKind}:${API_BASE}`;
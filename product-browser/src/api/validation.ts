@@ -0,0 +1,202 @@
+import { ApiError } from './apiError';
+import type {
+  AvailabilityStatus,
+  Category,
+  Product,
+  ProductFacets,
+  ProductsResponse,
+  ProductSuggestion
+} from '../types/product';
+
+/**
+ * The API answered, but not with the shape the app expects. `path` points
+ * at the first offending field, e.g. "products[3].price"
+ */
+export class ResponseValidationError extends ApiError {
+  readonly path: string;
+
+  constructor(path: string, expected: string) {
+    super('invalidResponse', `Invalid API response: ${path} should be ${expected}`);
+    this.name = 'ResponseValidationError';
+    this.path = path;
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const AVAILABILITY_STATUSES: readonly AvailabilityStatus[] = ['In Stock', 'Low Stock', 'Out of Stock'];
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Numbers sometimes arrive as strings (e.g. decimals from some serializers)
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const expectRecord = (value: unknown, path: string): UnknownRecord => {
+  if (!isRecord(value)) {
+    throw new ResponseValidationError(path, 'an object');
+  }
+  return value;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new ResponseValidationError(path, 'an array');
+  }
+  return value;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  const number = toNumber(value);
+  if (number === undefined) {
+    throw new ResponseValidationError(path, 'a number');
+  }
+  return number;
+};
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') {
+    throw new ResponseValidationError(path, 'a string');
+  }
+  return value;
+};
+
+const expectProductId = (value: unknown, path: string): number => {
+  const id = expectNumber(value, path);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ResponseValidationError(path, 'a positive integer');
+  }
+  return id;
+};
+
+// Optional text is not worth failing a whole page over
+const optionalString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const optionalNumber = (value: unknown, isValid: (number: number) => boolean): number | undefined => {
+  const number = toNumber(value);
+  return number !== undefined && isValid(number) ? number : undefined;
+};
+
+const optionalImages = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const images = value.filter((image): image is string => typeof image === 'string' && image !== '');
+  return images.length > 0 ? images : undefined;
+};
+
+/**
+ * Validate one product. Fields the grid cannot do without (id, title,
+ * price) must be present; optional fields are coerced or dropped
+ */
+export const parseProduct = (value: unknown, path = 'product'): Product => {
+  const data = expectRecord(value, path);
+  const id = expectProductId(data.id, `${path}.id`);
+
+  const price = expectNumber(data.price, `${path}.price`);
+  if (price < 0) {
+    throw new ResponseValidationError(`${path}.price`, 'zero or more');
+  }
+
+  const availabilityStatus = AVAILABILITY_STATUSES.find((status) => status === data.availabilityStatus);
+
+  return {
+    id,
+    title: expectString(data.title, `${path}.title`),
+    description: optionalString(data.description),
+    price,
+    thumbnail: optionalString(data.thumbnail),
+    rating: optionalNumber(data.rating, (rating) => rating >= 0 && rating <= 5) ?? 0,
+    brand: optionalString(data.brand),
+    category: optionalString(data.category),
+    images: optionalImages(data.images),
+    stock: optionalNumber(data.stock, (stock) => Number.isInteger(stock) && stock >= 0),
+    discountPercentage: optionalNumber(data.discountPercentage, (discount) => discount >= 0 && discount <= 100),
+    minimumOrderQuantity: optionalNumber(
+      data.minimumOrderQuantity,
+      (quantity) => Number.isInteger(quantity) && quantity > 0
+    ),
+    availabilityStatus
+  };
+};
+
+const parseProducts = (value: unknown, path: string): Product[] =>
+  expectArray(value, path).map((product, index) => parseProduct(product, `${path}[${index}]`));
+
+// Facets are computed on the server, so a malformed set is dropped rather than fatal
+const parseFacets = (value: unknown): ProductFacets | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.price) || !Array.isArray(value.rating)) {
+    return undefined;
+  }
+  const price = value.price.filter(
+    (facet): facet is ProductFacets['price'][number] =>
+      isRecord(facet) && typeof facet.min === 'number' && typeof facet.count === 'number' &&
+      (facet.max === null || typeof facet.max === 'number')
+  );
+  const rating = value.rating.filter(
+    (facet): facet is ProductFacets['rating'][number] =>
+      isRecord(facet) && typeof facet.minRating === 'number' && typeof facet.count === 'number'
+  );
+  return { price, rating };
+};
+
+// A page of results from the custom backend
+export const parseProductsResponse = (value: unknown): ProductsResponse => {
+  const data = expectRecord(value, 'response');
+  return {
+    products: parseProducts(data.products, 'products'),
+    total: expectNumber(data.total, 'total'),
+    page: expectNumber(data.page, 'page'),
+    totalPages: expectNumber(data.totalPages, 'totalPages'),
+    facets: parseFacets(data.facets)
+  };
+};
+
+// A DummyJSON list; paging is worked out by the caller
+export const parseDummyJsonList = (value: unknown): { products: Product[]; total: number } => {
+  const data = expectRecord(value, 'response');
+  return {
+    products: parseProducts(data.products, 'products'),
+    total: expectNumber(data.total, 'total')
+  };
+};
+
+// DummyJSON's `select=price,rating` listing used for facet counts
+export const parseFacetSample = (value: unknown): Array<Pick<Product, 'price' | 'rating'>> => {
+  const data = expectRecord(value, 'response');
+  return expectArray(data.products, 'products').map((product, index) => {
+    const path = `products[${index}]`;
+    const item = expectRecord(product, path);
+    return {
+      price: expectNumber(item.price, `${path}.price`),
+      rating: optionalNumber(item.rating, (rating) => rating >= 0 && rating <= 5) ?? 0
+    };
+  });
+};
+
+export const parseSuggestions = (value: unknown): ProductSuggestion[] =>
+  expectArray(value, 'suggestions').map((suggestion, index) => {
+    const path = `suggestions[${index}]`;
+    const data = expectRecord(suggestion, path);
+    return {
+      id: expectProductId(data.id, `${path}.id`),
+      title: expectString(data.title, `${path}.title`),
+      brand: optionalString(data.brand),
+      category: optionalString(data.category),
+      thumbnail: optionalString(data.thumbnail)
+    };
+  });
+
+// Both sources answer with { slug, name } objects; anything extra is dropped
+export const parseCategories = (value: unknown): Category[] =>
+  expectArray(value, 'categories').map((category, index) => {
+    const path = `categories[${index}]`;
+    const data = expectRecord(category, path);
+    return {
+      slug: expectString(data.slug, `${path}.slug`),
+      name: expectString(data.name, `${path}.name`)
+    };
+  });
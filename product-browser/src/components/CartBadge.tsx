@@ -0,0 +1,18 @@
+import { useCart } from '../hooks/useCart';
+import './CartBadge.scss';
+
+export const CartBadge: React.FC = () => {
+  const { totalQuantity } = useCart();
+  const label = `Cart, ${totalQuantity} ${totalQuantity === 1 ? 'item' : 'items'}`;
+
+  return (
+    <div className="cart-badge" aria-label={label} role="status">
+      <span className="cart-badge__icon" aria-hidden="true">🛒</span>
+      {totalQuantity > 0 && (
+        <span className="cart-badge__count" aria-hidden="true">
+          {totalQuantity > 99 ? '99+' : totalQuantity}
+        </span>
+      )}
+    </div>
+  );
+};
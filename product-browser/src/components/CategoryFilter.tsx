@@ -0,0 +1,45 @@
+import { useCategories } from '../hooks/useCategories';
+import './CategoryFilter.scss';
+
+interface CategoryFilterProps {
+  value: string;
+  onChange: (category: string) => void;
+}
+
+export const CategoryFilter: React.FC<CategoryFilterProps> = ({ value, onChange }) => {
+  const { data: categories, isLoading, error } = useCategories();
+
+  // Categories are an enhancement; browsing still works without them
+  if (isLoading || error || !categories?.length) {
+    return null;
+  }
+
+  return (
+    <nav className="category-filter" aria-label="Filter by category">
+      <ul className="category-filter__list">
+        <li>
+          <button
+            type="button"
+            className={`category-filter__chip ${value === '' ? 'category-filter__chip--active' : ''}`}
+            onClick={() => onChange('')}
+            aria-pressed={value === ''}
+          >
+            All
+          </button>
+        </li>
+        {categories.map((category) => (
+          <li key={category.slug}>
+            <button
+              type="button"
+              className={`category-filter__chip ${value === category.slug ? 'category-filter__chip--active' : ''}`}
+              onClick={() => onChange(category.slug)}
+              aria-pressed={value === category.slug}
+            >
+              {category.name}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+};
@@ -0,0 +1,32 @@
+import { useCompare } from '../hooks/useCompare';
+import { MAX_COMPARE_ITEMS } from '../constants/compare';
+import './CompareCheckbox.scss';
+
+interface CompareCheckboxProps {
+  productId: number;
+  productTitle: string;
+}
+
+export const CompareCheckbox: React.FC<CompareCheckboxProps> = ({ productId, productTitle }) => {
+  const { isSelected, isFull, toggleItem } = useCompare();
+  const selected = isSelected(productId);
+  const disabled = isFull && !selected;
+
+  return (
+    <label
+      className={`compare-checkbox ${disabled ? 'compare-checkbox--disabled' : ''}`}
+      title={disabled ? `You can compare up to ${MAX_COMPARE_ITEMS} products` : undefined}
+      // Cards open the quick view on click
+      onClick={(e) => e.stopPropagation()}
+    >
+      <input
+        type="checkbox"
+        checked={selected}
+        disabled={disabled}
+        aria-label={`Compare ${productTitle}`}
+        onChange={() => toggleItem(productId)}
+      />
+      Compare
+    </label>
+  );
+};
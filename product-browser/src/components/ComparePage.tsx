@@ -0,0 +1,186 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { useCompare } from '../hooks/useCompare';
+import { useProductsByIds } from '../hooks/useProductsByIds';
+import { isApiError } from '../api/apiError';
+import { formatRating } from '../utils/formatters';
+import { getBestIndexes, parseCompareIds } from '../utils/compare';
+import { getDiscountedPrice } from '../utils/pricing';
+import { Price } from './Price';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Page } from './Page';
+import type { Product } from '../types/product';
+import './ComparePage.scss';
+
+interface CompareRow {
+  label: string;
+  // Numeric rows highlight the product with the best value
+  best?: 'min' | 'max';
+  getValue?: (product: Product) => number | undefined;
+  render: (product: Product) => React.ReactNode;
+}
+
+const COMPARE_ROWS: CompareRow[] = [
+  {
+    label: 'Price',
+    best: 'min',
+    getValue: (product) => getDiscountedPrice(product.price, product.discountPercentage),
+    render: (product) => (
+      <Price amount={product.price} discountPercentage={product.discountPercentage} />
+    ),
+  },
+  {
+    label: 'Rating',
+    best: 'max',
+    getValue: (product) => product.rating,
+    render: (product) => {
+      const rating = formatRating(product.rating);
+      return (
+        <>
+          <span className="compare-table__stars" aria-hidden="true">{rating.stars}</span>{' '}
+          {rating.value}
+        </>
+      );
+    },
+  },
+  {
+    label: 'Brand',
+    render: (product) => product.brand || '—',
+  },
+  {
+    label: 'Category',
+    render: (product) => product.category,
+  },
+  {
+    label: 'Stock',
+    best: 'max',
+    getValue: (product) => product.stock,
+    render: (product) => {
+      if (product.stock === undefined) {
+        return '—';
+      }
+      return product.stock > 0 ? `${product.stock} in stock` : 'Out of stock';
+    },
+  },
+  {
+    label: 'Discount',
+    best: 'max',
+    getValue: (product) => product.discountPercentage ?? 0,
+    render: (product) => (product.discountPercentage ? `${product.discountPercentage}%` : '—'),
+  },
+];
+
+export const ComparePage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const ids = parseCompareIds(searchParams.get('ids'));
+  const results = useProductsByIds(ids);
+  const { removeItem } = useCompare();
+
+  const handleRemove = (productId: number) => {
+    const remaining = ids.filter((id) => id !== productId);
+    setSearchParams(remaining.length ? { ids: remaining.join(',') } : {}, { replace: true });
+    removeItem(productId);
+  };
+
+  // Columns for products that loaded; failed ones only get a notice
+  const products = results.map((result) => result.data);
+  const isLoading = results.some((result) => result.isLoading);
+
+  let content: React.ReactNode;
+
+  if (ids.length === 0) {
+    content = (
+      <div className="empty-state">
+        <h3>Nothing to compare yet</h3>
+        <p>Tick "Compare" on up to four products to see them side by side</p>
+      </div>
+    );
+  } else if (isLoading) {
+    content = <LoadingSpinner label="Loading comparison..." />;
+  } else {
+    content = (
+      <div className="compare-page__table-wrapper">
+        <table className="compare-table">
+          <caption className="compare-table__caption">
+            Product comparison. The best value in each row is highlighted.
+          </caption>
+          <thead>
+            <tr>
+              <td />
+              {ids.map((productId, index) => {
+                const product = products[index];
+                const error = results[index].error;
+                return (
+                  <th key={productId} scope="col" className="compare-table__product">
+                    {product ? (
+                      <>
+                        <img src={product.thumbnail} alt="" className="compare-table__image" />
+                        <Link to={`/product/${product.id}`} className="compare-table__title">
+                          {product.title}
+                        </Link>
+                      </>
+                    ) : (
+                      <span className="compare-table__unavailable">
+                        {isApiError(error) && error.kind === 'notFound'
+                          ? 'No longer available'
+                          : "Couldn't load this product"}
+                      </span>
+                    )}
+                    <button
+                      type="button"
+                      className="compare-table__remove"
+                      onClick={() => handleRemove(productId)}
+                    >
+                      Remove
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARE_ROWS.map((row) => {
+              const { best, getValue } = row;
+              const bestIndexes = best && getValue
+                ? getBestIndexes(products.map((product) => product && getValue(product)), best)
+                : [];
+
+              return (
+                <tr key={row.label}>
+                  <th scope="row" className="compare-table__label">{row.label}</th>
+                  {ids.map((productId, index) => {
+                    const product = products[index];
+                    const isBest = bestIndexes.includes(index);
+                    return (
+                      <td
+                        key={productId}
+                        className={`compare-table__cell ${isBest ? 'compare-table__cell--best' : ''}`}
+                      >
+                        {product ? row.render(product) : '—'}
+                        {isBest && <span className="compare-table__best">Best</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  return (
+    <Page
+      className="compare-page"
+      header="Compare Products"
+      content={
+        <>
+          <Link to="/" className="compare-page__back-link">
+            ← Back to products
+          </Link>
+          {content}
+        </>
+      }
+    />
+  );
+};
@@ -0,0 +1,75 @@
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCompare } from '../hooks/useCompare';
+import { useProduct } from '../hooks/useProduct';
+import { findCachedProduct } from '../utils/productCache';
+import { MAX_COMPARE_ITEMS } from '../constants/compare';
+import './CompareTray.scss';
+
+interface CompareTrayItemProps {
+  productId: number;
+  onRemove: (productId: number) => void;
+}
+
+const CompareTrayItem: React.FC<CompareTrayItemProps> = ({ productId, onRemove }) => {
+  const queryClient = useQueryClient();
+  const { data: product } = useProduct(productId, {
+    placeholderData: () => findCachedProduct(queryClient, productId),
+  });
+  const title = product?.title ?? `Product ${productId}`;
+
+  return (
+    <li className="compare-tray__item">
+      {product && <img src={product.thumbnail} alt="" className="compare-tray__image" />}
+      <span className="compare-tray__title">{title}</span>
+      <button
+        type="button"
+        className="compare-tray__remove"
+        aria-label={`Remove ${title} from comparison`}
+        onClick={() => onRemove(productId)}
+      >
+        ×
+      </button>
+    </li>
+  );
+};
+
+// Fixed bar listing the products ticked for comparison
+export const CompareTray: React.FC = () => {
+  const { productIds, removeItem, clear } = useCompare();
+
+  if (productIds.length === 0) {
+    return null;
+  }
+
+  const canCompare = productIds.length > 1;
+
+  return (
+    <>
+      {/* Keeps the end of the page clear of the fixed tray */}
+      <div className="compare-tray__spacer" aria-hidden="true" />
+      <section className="compare-tray" aria-label="Products to compare">
+        <ul className="compare-tray__list">
+          {productIds.map((productId) => (
+            <CompareTrayItem key={productId} productId={productId} onRemove={removeItem} />
+          ))}
+        </ul>
+        <div className="compare-tray__actions">
+          <span className="compare-tray__count">
+            {productIds.length}/{MAX_COMPARE_ITEMS}
+          </span>
+          <button type="button" className="compare-tray__clear" onClick={clear}>
+            Clear
+          </button>
+          {canCompare ? (
+            <Link to={`/compare?ids=${productIds.join(',')}`} className="compare-tray__compare">
+              Compare
+            </Link>
+          ) : (
+            <span className="compare-tray__hint">Pick at least 2 products</span>
+          )}
+        </div>
+      </section>
+    </>
+  );
+};
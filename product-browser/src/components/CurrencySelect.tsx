@@ -0,0 +1,23 @@
+import { CURRENCIES } from '../constants/currency';
+import { useCurrency } from '../hooks/useCurrency';
+import type { CurrencyCode } from '../types/currency';
+import './CurrencySelect.scss';
+
+export const CurrencySelect: React.FC = () => {
+  const { currency, setCurrency } = useCurrency();
+
+  return (
+    <select
+      className="currency-select"
+      aria-label="Currency"
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+    >
+      {(Object.keys(CURRENCIES) as CurrencyCode[]).map((code) => (
+        <option key={code} value={code} title={CURRENCIES[code].label}>
+          {code}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -1,20 +1,31 @@
+import { Link } from 'react-router-dom';
+import { getErrorContent } from '../utils/errorMessages';
+import type { ErrorSubject } from '../utils/errorMessages';
 import './ErrorMessage.scss';
 
 interface ErrorMessageProps {
-  message: string;
+  error: unknown;
+  // What failed to load; drives the heading and copy
+  subject?: ErrorSubject;
   onRetry?: () => void;
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry }) => {
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, subject = 'products', onRetry }) => {
+  const { title, message, action, tone } = getErrorContent(error, subject);
+
   return (
-    <div className="error-message" role="alert">
-      <h3>Error loading products</h3>
+    <div className={`error-message ${tone === 'warning' ? 'error-message--warning' : ''}`} role="alert">
+      <h3>{title}</h3>
       <p>{message}</p>
-      {onRetry && (
+      {action === 'back' ? (
+        <Link to="/" className="error-message__retry">
+          Back to products
+        </Link>
+      ) : onRetry && (
         <button onClick={onRetry} className="error-message__retry">
           Try Again
         </button>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
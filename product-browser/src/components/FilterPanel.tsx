@@ -0,0 +1,173 @@
+import React, { useEffect, useId, useState } from 'react';
+import { PRICE_RANGES, RATING_OPTIONS } from '../constants/filters';
+import { useCurrency } from '../hooks/useCurrency';
+import { hasActiveFilters } from '../utils/filters';
+import { convertPrice, convertToBasePrice } from '../utils/formatters';
+import type { CurrencyCode } from '../types/currency';
+import type { ProductFacets, ProductFilters } from '../types/product';
+import './FilterPanel.scss';
+
+interface FilterPanelProps {
+  filters: ProductFilters;
+  // Undefined while the first page of results is loading
+  facets?: ProductFacets;
+  onChange: (filters: ProductFilters) => void;
+}
+
+const formatPriceRange = (
+  min: number,
+  max: number | null,
+  formatPrice: (amount: number, options: { wholeUnits: boolean }) => string
+): string => {
+  const format = (amount: number) => formatPrice(amount, { wholeUnits: true });
+  if (max === null) {
+    return `${format(min)} & above`;
+  }
+  return min === 0 ? `Under ${format(max)}` : `${format(min)} to ${format(max)}`;
+};
+
+const withCount = (label: string, count?: number): string => {
+  return count === undefined ? label : `${label} (${count})`;
+};
+
+// The custom range is typed in the selected currency but filters stay in USD
+const parseAmount = (value: string, currency: CurrencyCode): number | undefined => {
+  const amount = Number(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount >= 0
+    ? convertToBasePrice(amount, currency)
+    : undefined;
+};
+
+const toInputValue = (amount: number | undefined, currency: CurrencyCode): string => {
+  return amount === undefined
+    ? ''
+    : (Math.round(convertPrice(amount, currency) * 100) / 100).toString();
+};
+
+export const FilterPanel: React.FC<FilterPanelProps> = ({ filters, facets, onChange }) => {
+  const id = useId();
+  const { currency, formatPrice } = useCurrency();
+  const [minPriceInput, setMinPriceInput] = useState(toInputValue(filters.minPrice, currency));
+  const [maxPriceInput, setMaxPriceInput] = useState(toInputValue(filters.maxPrice, currency));
+
+  // Follow the URL when filters change elsewhere (range option, back/forward)
+  // and re-express the bounds when the currency changes
+  useEffect(() => {
+    setMinPriceInput(toInputValue(filters.minPrice, currency));
+    setMaxPriceInput(toInputValue(filters.maxPrice, currency));
+  }, [filters.minPrice, filters.maxPrice, currency]);
+
+  const isRangeSelected = (min: number, max: number | null) => {
+    return filters.minPrice === min && filters.maxPrice === (max ?? undefined);
+  };
+
+  const hasPriceFilter = filters.minPrice !== undefined || filters.maxPrice !== undefined;
+
+  const handlePriceSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minPrice = parseAmount(minPriceInput, currency);
+    const maxPrice = parseAmount(maxPriceInput, currency);
+
+    // Accept the bounds in either order; the backend rejects min > max
+    const isReversed = minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice;
+    onChange({
+      ...filters,
+      minPrice: isReversed ? maxPrice : minPrice,
+      maxPrice: isReversed ? minPrice : maxPrice,
+    });
+  };
+
+  return (
+    <aside className="filter-panel" aria-label="Filter products">
+      <fieldset className="filter-panel__group">
+        <legend className="filter-panel__legend">Price</legend>
+        <label className="filter-panel__option">
+          <input
+            type="radio"
+            name={`${id}-price`}
+            checked={!hasPriceFilter}
+            onChange={() => onChange({ ...filters, minPrice: undefined, maxPrice: undefined })}
+          />
+          Any price
+        </label>
+        {PRICE_RANGES.map(({ min, max }, index) => (
+          <label key={min} className="filter-panel__option">
+            <input
+              type="radio"
+              name={`${id}-price`}
+              checked={isRangeSelected(min, max)}
+              onChange={() => onChange({ ...filters, minPrice: min, maxPrice: max ?? undefined })}
+            />
+            {withCount(formatPriceRange(min, max, formatPrice), facets?.price[index]?.count)}
+          </label>
+        ))}
+
+        <form className="filter-panel__range" onSubmit={handlePriceSubmit}>
+          <label className="filter-panel__range-label" htmlFor={`${id}-min-price`}>
+            Min
+          </label>
+          <input
+            id={`${id}-min-price`}
+            type="number"
+            min={0}
+            inputMode="decimal"
+            placeholder={currency}
+            className="filter-panel__range-input"
+            value={minPriceInput}
+            onChange={(e) => setMinPriceInput(e.target.value)}
+          />
+          <label className="filter-panel__range-label" htmlFor={`${id}-max-price`}>
+            Max
+          </label>
+          <input
+            id={`${id}-max-price`}
+            type="number"
+            min={0}
+            inputMode="decimal"
+            placeholder={currency}
+            className="filter-panel__range-input"
+            value={maxPriceInput}
+            onChange={(e) => setMaxPriceInput(e.target.value)}
+          />
+          <button type="submit" className="filter-panel__apply">
+            Go
+          </button>
+        </form>
+      </fieldset>
+
+      <fieldset className="filter-panel__group">
+        <legend className="filter-panel__legend">Customer rating</legend>
+        <label className="filter-panel__option">
+          <input
+            type="radio"
+            name={`${id}-rating`}
+            checked={filters.minRating === undefined}
+            onChange={() => onChange({ ...filters, minRating: undefined })}
+          />
+          Any rating
+        </label>
+        {RATING_OPTIONS.map((minRating, index) => (
+          <label key={minRating} className="filter-panel__option">
+            <input
+              type="radio"
+              name={`${id}-rating`}
+              checked={filters.minRating === minRating}
+              onChange={() => onChange({ ...filters, minRating })}
+            />
+            {withCount(`${minRating}★ & up`, facets?.rating[index]?.count)}
+          </label>
+        ))}
+      </fieldset>
+
+      {hasActiveFilters(filters) && (
+        <button
+          type="button"
+          className="filter-panel__clear"
+          onClick={() => onChange({})}
+        >
+          Clear filters
+        </button>
+      )}
+    </aside>
+  );
+};
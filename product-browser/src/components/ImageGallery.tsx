@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useImageGallery } from '../hooks/useImageGallery';
+import { useScrollLock } from '../hooks/useScrollLock';
+import { ImageLightbox } from './ImageLightbox';
+import './ImageGallery.scss';
+
+interface ImageGalleryProps {
+  images: string[];
+  alt: string;
+  // Smaller stage and thumbnails for the quick view drawer
+  compact?: boolean;
+}
+
+export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, alt, compact = false }) => {
+  const gallery = useImageGallery(images.length);
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+
+  useScrollLock(gallery.isLightboxOpen);
+
+  const activeImage = images[gallery.activeIndex];
+  const hasMultiple = images.length > 1;
+  const isLoaded = loadedSrc === activeImage;
+
+  if (!activeImage) {
+    return null;
+  }
+
+  return (
+    <div
+      className={`image-gallery ${compact ? 'image-gallery--compact' : ''}`}
+      role="region"
+      aria-roledescription="gallery"
+      aria-label={`${alt} images`}
+      onKeyDown={gallery.handleKeyDown}
+    >
+      <div className="image-gallery__stage">
+        {!isLoaded && <div className="image-gallery__placeholder" />}
+        <button
+          type="button"
+          className="image-gallery__enlarge"
+          onClick={(e) => {
+            // Safari does not focus buttons on click; the lightbox returns focus here
+            e.currentTarget.focus({ preventScroll: true });
+            gallery.openLightbox();
+          }}
+          aria-label={hasMultiple
+            ? `Enlarge image ${gallery.activeIndex + 1} of ${images.length}`
+            : 'Enlarge image'}
+        >
+          <img
+            key={activeImage}
+            src={activeImage}
+            alt={alt}
+            className={`image-gallery__image ${isLoaded ? 'image-gallery__image--loaded' : ''}`}
+            onLoad={() => setLoadedSrc(activeImage)}
+            decoding="async"
+          />
+        </button>
+
+        {hasMultiple && (
+          <>
+            <button
+              type="button"
+              className="image-gallery__nav image-gallery__nav--previous"
+              onClick={gallery.showPrevious}
+              aria-label="Previous image"
+            >
+              ‹
+            </button>
+            <button
+              type="button"
+              className="image-gallery__nav image-gallery__nav--next"
+              onClick={gallery.showNext}
+              aria-label="Next image"
+            >
+              ›
+            </button>
+          </>
+        )}
+      </div>
+
+      {hasMultiple && (
+        <ul className="image-gallery__thumbnails">
+          {images.map((src, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                className={`image-gallery__thumbnail ${index === gallery.activeIndex ? 'image-gallery__thumbnail--active' : ''}`}
+                onClick={() => gallery.showImage(index)}
+                aria-label={`Show image ${index + 1} of ${images.length}`}
+                aria-current={index === gallery.activeIndex}
+              >
+                <img src={src} alt="" loading="lazy" decoding="async" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {gallery.isLightboxOpen && (
+        <ImageLightbox
+          images={images}
+          activeIndex={gallery.activeIndex}
+          alt={alt}
+          isZoomed={gallery.isZoomed}
+          onClose={gallery.closeLightbox}
+          onNext={gallery.showNext}
+          onPrevious={gallery.showPrevious}
+          onToggleZoom={gallery.toggleZoom}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import './ImageLightbox.scss';
+
+interface ImageLightboxProps {
+  images: string[];
+  activeIndex: number;
+  alt: string;
+  isZoomed: boolean;
+  onClose: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onToggleZoom: () => void;
+}
+
+// Rendered into <body> so it covers the page even from inside the transformed drawer.
+// Keyboard handling bubbles up to ImageGallery through the portal.
+export const ImageLightbox: React.FC<ImageLightboxProps> = ({
+  images,
+  activeIndex,
+  alt,
+  isZoomed,
+  onClose,
+  onNext,
+  onPrevious,
+  onToggleZoom
+}) => {
+  // Mounted only while open: Tab stays inside and focus goes back to the
+  // enlarge button on close
+  const { dialogRef, handleKeyDown } = useFocusTrap(true);
+  const [zoomOrigin, setZoomOrigin] = useState('50% 50%');
+  const hasMultiple = images.length > 1;
+
+  // Zoom into the point that was clicked
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (!isZoomed && rect.width && rect.height) {
+      const x = ((e.clientX - rect.left) / rect.width) * 100;
+      const y = ((e.clientY - rect.top) / rect.height) * 100;
+      setZoomOrigin(`${x}% ${y}%`);
+    }
+    onToggleZoom();
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      className="image-lightbox"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${alt} images`}
+      tabIndex={-1}
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="image-lightbox__toolbar">
+        {hasMultiple && (
+          <span className="image-lightbox__counter">
+            {activeIndex + 1} / {images.length}
+          </span>
+        )}
+        <button
+          type="button"
+          className="image-lightbox__button"
+          onClick={onToggleZoom}
+          aria-pressed={isZoomed}
+        >
+          {isZoomed ? 'Zoom out' : 'Zoom in'}
+        </button>
+        <button
+          type="button"
+          className="image-lightbox__button image-lightbox__close"
+          onClick={onClose}
+          aria-label="Close image viewer"
+        >
+          &times;
+        </button>
+      </div>
+
+      <div className="image-lightbox__stage" onClick={handleBackdropClick}>
+        <img
+          key={images[activeIndex]}
+          src={images[activeIndex]}
+          alt={hasMultiple ? `${alt} (image ${activeIndex + 1} of ${images.length})` : alt}
+          className={`image-lightbox__image ${isZoomed ? 'image-lightbox__image--zoomed' : ''}`}
+          style={{ transformOrigin: zoomOrigin }}
+          onClick={handleImageClick}
+          decoding="async"
+        />
+      </div>
+
+      {hasMultiple && (
+        <>
+          <button
+            type="button"
+            className="image-lightbox__nav image-lightbox__nav--previous"
+            onClick={onPrevious}
+            aria-label="Previous image"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            className="image-lightbox__nav image-lightbox__nav--next"
+            onClick={onNext}
+            aria-label="Next image"
+          >
+            ›
+          </button>
+        </>
+      )}
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,98 @@
+import { useInfiniteProducts } from '../hooks/useInfiniteProducts';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { ProductGrid } from './ProductGrid';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ProductGridSkeleton } from './ProductCardSkeleton';
+import { ErrorMessage } from './ErrorMessage';
+import { OFFLINE_ERROR } from '../api/apiError';
+import type { Product, ProductFilters, ProductSort } from '../types/product';
+import './InfiniteProductList.scss';
+
+interface InfiniteProductListProps {
+  search: string;
+  category?: string;
+  sort?: ProductSort;
+  filters?: ProductFilters;
+  onProductClick: (product: Product) => void;
+}
+
+export const InfiniteProductList: React.FC<InfiniteProductListProps> = ({
+  search,
+  category = '',
+  sort,
+  filters,
+  onProductClick
+}) => {
+  const {
+    data,
+    isLoading,
+    error,
+    fetchStatus,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError
+  } = useInfiniteProducts({
+    search,
+    category: category || undefined,
+    sort,
+    filters
+  });
+
+  // Stop observing after a failed page so we don't retry in a loop while the sentinel stays visible
+  const sentinelRef = useInfiniteScroll(() => fetchNextPage(), {
+    enabled: hasNextPage && !isFetchingNextPage && !isFetchNextPageError
+  });
+
+  if (isLoading) {
+    return <ProductGridSkeleton />;
+  }
+
+  // Offline with nothing cached: the query waits for the connection instead of failing
+  if (!data && fetchStatus === 'paused') {
+    return <ErrorMessage error={OFFLINE_ERROR} onRetry={() => refetch()} />;
+  }
+
+  // Only a failed first page replaces the list; later failures keep what's loaded
+  if (error && !data) {
+    return (
+      <ErrorMessage 
+        error={error}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  const products = data?.pages.flatMap((page) => page.products) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  return (
+    <>
+      <ProductGrid products={products} onProductClick={onProductClick} />
+
+      {products.length > 0 && (
+        <div className="infinite-list__footer">
+          <div ref={sentinelRef} className="infinite-list__sentinel" aria-hidden="true" />
+
+          {isFetchingNextPage && <LoadingSpinner label="Loading more products..." />}
+
+          {isFetchNextPageError && (
+            <div className="infinite-list__error" role="alert">
+              <p>Couldn't load more products.</p>
+              <button type="button" className="infinite-list__retry" onClick={() => fetchNextPage()}>
+                Try again
+              </button>
+            </div>
+          )}
+
+          <p className="infinite-list__status" aria-live="polite">
+            {hasNextPage
+              ? `Showing ${products.length} of ${total} products`
+              : `Showing all ${products.length} products`}
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
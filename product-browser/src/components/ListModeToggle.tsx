@@ -0,0 +1,30 @@
+import type { ProductListMode } from '../types/product';
+import './ListModeToggle.scss';
+
+interface ListModeToggleProps {
+  value: ProductListMode;
+  onChange: (mode: ProductListMode) => void;
+}
+
+const LIST_MODES: { value: ProductListMode; label: string }[] = [
+  { value: 'pages', label: 'Pages' },
+  { value: 'infinite', label: 'Infinite scroll' },
+];
+
+export const ListModeToggle: React.FC<ListModeToggleProps> = ({ value, onChange }) => {
+  return (
+    <div className="list-mode-toggle" role="group" aria-label="Load more products with">
+      {LIST_MODES.map((mode) => (
+        <button
+          key={mode.value}
+          type="button"
+          className={`list-mode-toggle__option ${value === mode.value ? 'list-mode-toggle__option--active' : ''}`}
+          onClick={() => onChange(mode.value)}
+          aria-pressed={value === mode.value}
+        >
+          {mode.label}
+        </button>
+      ))}
+    </div>
+  );
+};
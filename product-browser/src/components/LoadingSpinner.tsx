@@ -1,12 +1,17 @@
 import './LoadingSpinner.scss';
 
-export const LoadingSpinner: React.FC = () => {
+interface LoadingSpinnerProps {
+  // What is loading, e.g. "Loading comparison..."
+  label?: string;
+}
+
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ label = 'Loading products...' }) => {
   return (
     <div className="loading-spinner">
       <div className="spinner" role="status">
-        <span className="sr-only">Loading...</span>
+        <span className="sr-only">{label}</span>
       </div>
-      <p>Loading products...</p>
+      <p aria-hidden="true">{label}</p>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,20 @@
+import { Link } from 'react-router-dom';
+import { Page } from './Page';
+import './NotFoundPage.scss';
+
+// Rendered for any URL no other route matches
+export const NotFoundPage: React.FC = () => {
+  const content = (
+    <div className="not-found-page">
+      <h2 className="not-found-page__title">Page not found</h2>
+      <p className="not-found-page__message">
+        The page you are looking for does not exist or has moved.
+      </p>
+      <Link to="/" className="not-found-page__link">
+        Back to products
+      </Link>
+    </div>
+  );
+
+  return <Page className="not-found-page-container" header="Not Found" content={content} />;
+};
@@ -1,4 +1,8 @@
 import type { ReactNode } from 'react';
+import { CartBadge } from './CartBadge';
+import { CurrencySelect } from './CurrencySelect';
+import { WishlistLink } from './WishlistLink';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import './Page.scss';
 
 interface PageProps {
@@ -8,11 +12,24 @@ interface PageProps {
 }
 
 export const Page: React.FC<PageProps> = ({ className, header, content }) => {
+  const isOnline = useOnlineStatus();
+
   return (
     <div className={`page ${className}`}>
       <header className="page__header">
         <h1>{header}</h1>
+        <div className="page__header-actions">
+          <CurrencySelect />
+          <WishlistLink />
+          <CartBadge />
+        </div>
       </header>
+
+      {!isOnline && (
+        <div className="page__offline-banner" role="status">
+          You're offline. Showing products saved from earlier visits; prices and stock may be out of date.
+        </div>
+      )}
       
       <div className="page__container">
         {content}
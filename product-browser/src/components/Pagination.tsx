@@ -1,35 +1,138 @@
+import { useEffect, useId, useState } from 'react';
+import { PAGE_SIZE_OPTIONS } from '../constants/pagination';
+import { getPageItems } from '../utils/pagination';
 import './Pagination.scss';
 
 interface PaginationProps {
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
+  // The page size selector is only shown when both are given
+  pageSize?: number;
+  onPageSizeChange?: (pageSize: number) => void;
 }
 
 export const Pagination: React.FC<PaginationProps> = ({ 
   currentPage, 
   totalPages, 
-  onPageChange 
+  onPageChange,
+  pageSize,
+  onPageSizeChange
 }) => {
+  const id = useId();
+  const [jumpInput, setJumpInput] = useState(String(currentPage));
+
+  // Show the page we landed on, however we got there
+  useEffect(() => {
+    setJumpInput(String(currentPage));
+  }, [currentPage]);
+
+  const handleJumpSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = Number(jumpInput);
+    if (!Number.isInteger(target)) {
+      setJumpInput(String(currentPage));
+      return;
+    }
+    const page = Math.min(Math.max(target, 1), totalPages);
+    setJumpInput(String(page));
+    if (page !== currentPage) {
+      onPageChange(page);
+    }
+  };
+
   return (
-    <div className="pagination">
-      <button 
-        onClick={() => onPageChange(currentPage - 1)}
-        disabled={currentPage <= 1}
-        aria-label="Previous page"
-      >
-        Previous
-      </button>
-      <span className="pagination__info">
-        Page {currentPage} of {totalPages}
-      </span>
-      <button 
-        onClick={() => onPageChange(currentPage + 1)}
-        disabled={currentPage >= totalPages}
-        aria-label="Next page"
-      >
-        Next
-      </button>
-    </div>
+    <nav className="pagination" aria-label="Pagination">
+      <div className="pagination__pages">
+        <button 
+          onClick={() => onPageChange(1)}
+          disabled={currentPage <= 1}
+          aria-label="First page"
+          className="pagination__step"
+        >
+          «
+        </button>
+        <button 
+          onClick={() => onPageChange(currentPage - 1)}
+          disabled={currentPage <= 1}
+          aria-label="Previous page"
+          className="pagination__step"
+        >
+          Previous
+        </button>
+
+        <ul className="pagination__list">
+          {getPageItems(currentPage, totalPages).map((item) => (
+            <li key={item}>
+              {typeof item === 'number' ? (
+                <button
+                  onClick={() => onPageChange(item)}
+                  className={`pagination__page ${item === currentPage ? 'pagination__page--current' : ''}`}
+                  aria-label={`Page ${item}`}
+                  aria-current={item === currentPage ? 'page' : undefined}
+                >
+                  {item}
+                </button>
+              ) : (
+                <span className="pagination__ellipsis" aria-hidden="true">…</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <button 
+          onClick={() => onPageChange(currentPage + 1)}
+          disabled={currentPage >= totalPages}
+          aria-label="Next page"
+          className="pagination__step"
+        >
+          Next
+        </button>
+        <button 
+          onClick={() => onPageChange(totalPages)}
+          disabled={currentPage >= totalPages}
+          aria-label="Last page"
+          className="pagination__step"
+        >
+          »
+        </button>
+      </div>
+
+      <div className="pagination__tools">
+        <form className="pagination__jump" onSubmit={handleJumpSubmit}>
+          <label htmlFor={`${id}-jump`}>Go to page</label>
+          <input
+            id={`${id}-jump`}
+            type="number"
+            min={1}
+            max={totalPages}
+            inputMode="numeric"
+            className="pagination__input"
+            value={jumpInput}
+            onChange={(e) => setJumpInput(e.target.value)}
+          />
+          <span className="pagination__info">of {totalPages}</span>
+          <button type="submit" className="pagination__go">Go</button>
+        </form>
+
+        {pageSize !== undefined && onPageSizeChange && (
+          <div className="pagination__size">
+            <label htmlFor={`${id}-size`}>Per page</label>
+            <select
+              id={`${id}-size`}
+              className="pagination__input"
+              value={pageSize}
+              onChange={(e) => onPageSizeChange(Number(e.target.value))}
+            >
+              {PAGE_SIZE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </nav>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,33 @@
+import { useCurrency } from '../hooks/useCurrency';
+import { getDiscountedPrice } from '../utils/pricing';
+import './Price.scss';
+
+interface PriceProps {
+  // Catalog (USD) unit price before discount
+  amount: number;
+  discountPercentage?: number;
+  className?: string;
+}
+
+/**
+ * Unit price in the selected currency; discounted prices also show the
+ * original price struck through
+ */
+export const Price: React.FC<PriceProps> = ({ amount, discountPercentage = 0, className = '' }) => {
+  const { formatPrice } = useCurrency();
+  const hasDiscount = discountPercentage > 0;
+
+  return (
+    <div className={`price ${className}`}>
+      <span className="price__current">
+        {formatPrice(getDiscountedPrice(amount, discountPercentage))}
+      </span>
+      {hasDiscount && (
+        <s className="price__original">
+          <span className="price__sr-only">Original price: </span>
+          {formatPrice(amount)}
+        </s>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,9 @@
+import { useRef } from 'react';
 import { Link } from 'react-router-dom';
+import { Price } from './Price';
+import { WishlistButton } from './WishlistButton';
+import { CompareCheckbox } from './CompareCheckbox';
+import { usePrefetchProduct } from '../hooks/usePrefetchProduct';
 import { formatRating } from '../utils/formatters';
 import type { Product } from '../types/product';
 import './ProductCard.scss';
@@ -6,24 +11,57 @@ import './ProductCard.scss';
 interface ProductCardProps {
   product: Product;
   onClick: (product: Product) => void;
+  // True where onClick opens the quick view drawer rather than navigating
+  opensDialog?: boolean;
 }
 
-export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) => {
+export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick, opensDialog = false }) => {
   const rating = formatRating(product.rating);
-  
+  const openButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Warm the detail cache before the drawer or detail page is opened. Only on
+  // hover and focus: prefetching every visible card would flood the API
+  const prefetchProduct = usePrefetchProduct();
+  const handlePrefetch = () => prefetchProduct(product.id);
+
+  // The whole card is a mouse target; keyboard and screen-reader users get the
+  // title button, so the wishlist, compare and details controls stay separate
   const handleCardClick = (e: React.MouseEvent) => {
-    // Prevent opening drawer if clicking on the link
-    if ((e.target as HTMLElement).closest('.product-card__link-button')) {
+    if ((e.target as HTMLElement).closest('a, button, input, label')) {
       return;
     }
+    // Focus the title button so the drawer returns focus to this card
+    openButtonRef.current?.focus({ preventScroll: true });
     onClick(product);
   };
 
   return (
-    <div className="product-card" onClick={handleCardClick} role="button" tabIndex={0}>
-      <img src={product.thumbnail} alt={product.title} className="product-card__image" />
+    <div
+      className="product-card"
+      onClick={handleCardClick}
+      onMouseEnter={handlePrefetch}
+      onFocus={handlePrefetch}
+    >
+      <div className="product-card__media">
+        <img src={product.thumbnail} alt={product.title} className="product-card__image" />
+        <WishlistButton
+          productId={product.id}
+          productTitle={product.title}
+          className="product-card__wishlist"
+        />
+      </div>
       <div className="product-card__info">
-        <h3 className="product-card__title">{product.title}</h3>
+        <h3 className="product-card__title">
+          <button
+            ref={openButtonRef}
+            type="button"
+            className="product-card__open"
+            onClick={() => onClick(product)}
+            aria-haspopup={opensDialog ? 'dialog' : undefined}
+          >
+            {product.title}
+          </button>
+        </h3>
         <div className="product-card__container">
           <p className="product-card__brand">{product.brand}</p>
           <div className="product-card__rating">
@@ -32,7 +70,11 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) =>
           </div>
         </div>
         <div className="product-card__container">
-          <div className="product-card__price">{product.price}</div>
+          <Price
+            amount={product.price}
+            discountPercentage={product.discountPercentage}
+            className="product-card__price"
+          />
           <div className="product-card__actions">
             <Link
               to={`/product/${product.id}`}
@@ -43,6 +85,9 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) =>
             </Link>
           </div>
         </div>
+        <div className="product-card__compare">
+          <CompareCheckbox productId={product.id} productTitle={product.title} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,43 @@
+import { DEFAULT_PAGE_SIZE } from '../constants/pagination';
+import './ProductGrid.scss';
+import './ProductCardSkeleton.scss';
+
+// Same boxes as ProductCard, so the grid does not jump when products arrive
+export const ProductCardSkeleton: React.FC = () => {
+  return (
+    <div className="product-card-skeleton" aria-hidden="true">
+      <div className="product-card-skeleton__image" />
+      <div className="product-card-skeleton__info">
+        <div className="product-card-skeleton__title" />
+        <div className="product-card-skeleton__row">
+          <div className="product-card-skeleton__brand" />
+          <div className="product-card-skeleton__rating" />
+        </div>
+        <div className="product-card-skeleton__row">
+          <div className="product-card-skeleton__price" />
+          <div className="product-card-skeleton__button" />
+        </div>
+        <div className="product-card-skeleton__compare" />
+      </div>
+    </div>
+  );
+};
+
+interface ProductGridSkeletonProps {
+  count?: number;
+  label?: string;
+}
+
+export const ProductGridSkeleton: React.FC<ProductGridSkeletonProps> = ({
+  count = DEFAULT_PAGE_SIZE,
+  label = 'Loading products...'
+}) => {
+  return (
+    <div className="product-grid" role="status" aria-busy="true">
+      <span className="product-card-skeleton__sr-only">{label}</span>
+      {Array.from({ length: count }, (_, index) => (
+        <ProductCardSkeleton key={index} />
+      ))}
+    </div>
+  );
+};
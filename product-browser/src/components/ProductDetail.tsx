@@ -1,86 +1,124 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect } from 'react';
 import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useProduct } from '../hooks/useProduct';
+import { OFFLINE_ERROR } from '../api/apiError';
+import { useCurrency } from '../hooks/useCurrency';
+import { useAddToCart } from '../hooks/useAddToCart';
 import { useDrawer } from '../hooks/useDrawer';
+import { useRecentlyViewed } from '../hooks/useRecentlyViewed';
 import { formatRating } from '../utils/formatters';
+import { findCachedProduct } from '../utils/productCache';
+import { getErrorContent } from '../utils/errorMessages';
+import { QuantitySelector } from './QuantitySelector';
+import { Price } from './Price';
+import { WishlistButton } from './WishlistButton';
+import { ImageGallery } from './ImageGallery';
+import { ProductDetailSkeleton } from './ProductDetailSkeleton';
 import './ProductDetail.scss';
 
 interface ProductDetailProps {
   productId: number;
+  isOpen: boolean;
   onClose: () => void;
+  onExited: () => void;
 }
 
-export const ProductDetail: React.FC<ProductDetailProps> = ({ productId, onClose }) => {
-  const [imageLoaded, setImageLoaded] = useState(false);
-  const { data: product, isLoading, error } = useProduct(productId);
-  
-  // Use the custom drawer hook for animation management
-  const { isDrawerOpen, handleClose: handleDrawerClose, transitionDuration } = useDrawer(true);
-
-  const handleClose = () => {
-    handleDrawerClose();
-    // Wait for CSS animation to complete before calling onClose
-    setTimeout(() => {
-      onClose();
-    }, transitionDuration);
-  };
+export const ProductDetail: React.FC<ProductDetailProps> = ({ productId, isOpen, onClose, onExited }) => {
+  const queryClient = useQueryClient();
+  // Seeded from the list the card was in, so the drawer shows the title, price
+  // and thumbnail straight away and fills in the rest once the product loads
+  const { data: product, isLoading, isPlaceholderData, error, fetchStatus, refetch } = useProduct(productId, {
+    placeholderData: () => findCachedProduct(queryClient, productId),
+  });
 
-  const handleAddToCart = () => {
-    if (product) {
-      // TODO: Implement actual cart functionality when cart system is ready
-      console.log('Add to cart:', product);
+  // Record the view once the product has loaded, so missing ids are not kept
+  const { recordView } = useRecentlyViewed();
+  const loadedProductId = product?.id;
+  useEffect(() => {
+    if (loadedProductId) {
+      recordView(loadedProductId);
     }
-  };
+  }, [loadedProductId, recordView]);
+  
+  // Use the custom drawer hook for animation management; onExited fires once
+  // the closing animation has finished, whether closed here or via browser Back
+  const { isDrawerOpen, handleClose, handleKeyDown, dialogRef } = useDrawer(isOpen, { onClose, onExited });
 
-  // Reset image loaded state when product changes
-  useEffect(() => {
-    setImageLoaded(false);
-  }, [productId]);
+  const { formatPrice } = useCurrency();
+  const {
+    quantitySelector,
+    minQuantity,
+    maxQuantity,
+    isAtStockLimit,
+    canChooseQuantity,
+    canAddToCart,
+    lineTotal,
+    addToCart
+  } = useAddToCart(product, isPlaceholderData);
+
+  // Offline with nothing cached reads as a network failure
+  const displayedError = error ?? (!product && fetchStatus === 'paused' ? OFFLINE_ERROR : null);
+  const errorContent = displayedError ? getErrorContent(displayedError, 'product') : null;
 
   return (
     <>
       <div
         className={`product-drawer-overlay ${isDrawerOpen ? 'product-drawer-overlay--open' : ''}`}
         onClick={handleClose}
+        aria-hidden="true"
       />
-      <div className={`product-drawer ${isDrawerOpen ? 'product-drawer--open' : ''}`}>
+      <div
+        ref={dialogRef}
+        className={`product-drawer ${isDrawerOpen ? 'product-drawer--open' : ''}`}
+        role="dialog"
+        aria-modal="true"
+        aria-label={product?.title ?? 'Product details'}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+      >
         <button className="product-detail__close" onClick={handleClose} aria-label="Close">
           &times;
         </button>
         <div className="product-detail">
           {isLoading ? (
-            <div className="product-detail__loading">
-              <div className="product-detail__loading-spinner">Loading...</div>
-            </div>
-          ) : error ? (
-            <div className="product-detail__error">
-              <h3>Error loading product</h3>
-              <p>{error instanceof Error ? error.message : 'An unexpected error occurred'}</p>
-              <button onClick={handleClose} className="product-detail__error-button">
-                Close
-              </button>
+            <ProductDetailSkeleton variant="drawer" />
+          ) : errorContent ? (
+            <div className="product-detail__error" role="alert">
+              <h3>{errorContent.title}</h3>
+              <p>{errorContent.message}</p>
+              <div className="product-detail__error-actions">
+                {errorContent.action === 'retry' && (
+                  <button onClick={() => refetch()} className="product-detail__error-button">
+                    Try Again
+                  </button>
+                )}
+                <button
+                  onClick={handleClose}
+                  className="product-detail__error-button product-detail__error-button--secondary"
+                >
+                  Close
+                </button>
+              </div>
             </div>
           ) : product ? (
             <>
-              <div className="product-detail__image-wrapper">
-                {!imageLoaded && (
-                  <div className="product-detail__image-placeholder" />
-                )}
-                <Link to={`/product/${product.id}`} className="product-detail__image-link">
-                  <img
-                    src={product.thumbnail}
-                    alt={product.title}
-                    className={`product-detail__image ${imageLoaded ? 'product-detail__image--loaded' : ''}`}
-                    onLoad={() => setImageLoaded(true)}
-                  />
-                </Link>
-              </div>
+              <ImageGallery
+                key={product.id}
+                images={product.images?.length ? product.images : [product.thumbnail]}
+                alt={product.title}
+                compact
+              />
               <div className="product-detail__info">
                 <Link to={`/product/${product.id}`} className="product-detail__title-link">
                   <h2 className="product-detail__title">{product.title}</h2>
                 </Link>
                 <p className="product-detail__brand">{product.brand}</p>
-                <div className="product-detail__price">{product.price}</div>
+                <Price
+                  amount={product.price}
+                  discountPercentage={product.discountPercentage}
+                  className="product-detail__price"
+                />
                 <p className="product-detail__description">{product.description}</p>
                 <div className="product-detail__rating">
                   {formatRating(product.rating).stars}
@@ -88,19 +126,50 @@ export const ProductDetail: React.FC<ProductDetailProps> = ({ productId, onClose
                 </div>
                 {product.stock !== undefined && (
                   <div className={`product-detail__stock ${
-                    product.stock > 0 ? 'product-detail__stock--in-stock' : 'product-detail__stock--out-of-stock'
+                    product.stock === 0
+                      ? 'product-detail__stock--out-of-stock'
+                      : product.availabilityStatus === 'Low Stock'
+                        ? 'product-detail__stock--low-stock'
+                        : 'product-detail__stock--in-stock'
                   }`}>
                     {product.stock > 0 ? `${product.stock} in stock` : 'Currently out of stock'}
                   </div>
                 )}
                 <div className="product-detail__actions">
-                  <button
-                    className="product-detail__add-to-cart"
-                    onClick={handleAddToCart}
-                    disabled={product.stock === 0}
-                  >
-                    Add to Cart
-                  </button>
+                  {canChooseQuantity && (
+                    <QuantitySelector
+                      value={quantitySelector.inputValue}
+                      min={minQuantity}
+                      max={maxQuantity}
+                      error={quantitySelector.error}
+                      onChange={quantitySelector.setInputValue}
+                      onIncrement={quantitySelector.increment}
+                      onDecrement={quantitySelector.decrement}
+                      disabled={isPlaceholderData}
+                      onBlur={quantitySelector.commit}
+                    />
+                  )}
+                  <div className="product-detail__purchase">
+                    <button
+                      className="product-detail__add-to-cart"
+                      onClick={addToCart}
+                      disabled={!canAddToCart}
+                    >
+                      {isAtStockLimit ? 'Maximum in Cart' : 'Add to Cart'}
+                    </button>
+                    <WishlistButton productId={product.id} productTitle={product.title} />
+                    {canChooseQuantity && (
+                      <div className="product-detail__line-total" aria-live="polite">
+                        <span className="product-detail__line-total-label">Total</span>
+                        <span className="product-detail__line-total-value">{formatPrice(lineTotal)}</span>
+                        {!!product.discountPercentage && (
+                          <span className="product-detail__line-total-discount">
+                            incl. {product.discountPercentage}% off
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
                   <Link to={`/product/${product.id}`} className="product-detail__view-full">
                     View Full Details →
                   </Link>
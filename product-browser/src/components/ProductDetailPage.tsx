@@ -1,24 +1,57 @@
+import { useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useProduct } from '../hooks/useProduct';
+import { isApiError, OFFLINE_ERROR } from '../api/apiError';
+import { useCurrency } from '../hooks/useCurrency';
+import { useAddToCart } from '../hooks/useAddToCart';
+import { useRecentlyViewed } from '../hooks/useRecentlyViewed';
 import { formatRating } from '../utils/formatters';
-import { LoadingSpinner } from './LoadingSpinner';
+import { findCachedProduct } from '../utils/productCache';
+import { parseProductId } from '../utils/productId';
+import { QuantitySelector } from './QuantitySelector';
+import { Price } from './Price';
+import { WishlistButton } from './WishlistButton';
+import { ImageGallery } from './ImageGallery';
+import { ProductDetailSkeleton } from './ProductDetailSkeleton';
 import { ErrorMessage } from './ErrorMessage';
+import { RecentlyViewed } from './RecentlyViewed';
 import { Page } from './Page';
 import './ProductDetailPage.scss';
 
 export const ProductDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const productId = id ? parseInt(id, 10) : 0;
+  // Malformed ids are rejected here rather than sent to the API
+  const productId = parseProductId(id);
   
-  const { data: product, isLoading, error } = useProduct(productId);
+  const queryClient = useQueryClient();
+  // Seeded from any cached list so the page renders before the full product arrives
+  const { data: product, isLoading, isPlaceholderData, error, fetchStatus, refetch } = useProduct(productId, {
+    placeholderData: () => (productId ? findCachedProduct(queryClient, productId) : undefined),
+  });
+  const isNotFound = productId === null || (isApiError(error) && error.kind === 'notFound');
 
-  const handleAddToCart = () => {
-    if (product) {
-      // TODO: Implement actual cart functionality when cart system is ready
-      console.log('Add to cart:', product);
+  // Record the view once the product has loaded, so missing ids are not kept
+  const { recordView } = useRecentlyViewed();
+  const loadedProductId = product?.id;
+  useEffect(() => {
+    if (loadedProductId) {
+      recordView(loadedProductId);
     }
-  };
+  }, [loadedProductId, recordView]);
+
+  const { formatPrice } = useCurrency();
+  const {
+    quantitySelector,
+    minQuantity,
+    maxQuantity,
+    isAtStockLimit,
+    canChooseQuantity,
+    canAddToCart,
+    lineTotal,
+    addToCart
+  } = useAddToCart(product, isPlaceholderData);
 
   const handleGoBack = () => {
     navigate('/');
@@ -27,15 +60,28 @@ export const ProductDetailPage: React.FC = () => {
   let content: React.ReactNode;
 
   if (isLoading) {
-    content = <LoadingSpinner />;
-  } else if (error) {
+    content = (
+      <div className="product-detail-page">
+        <div className="product-detail-page__back">
+          <Link to="/" className="product-detail-page__back-link">
+            ← Back to products
+          </Link>
+        </div>
+        <ProductDetailSkeleton variant="page" />
+      </div>
+    );
+  } else if (!product && fetchStatus === 'paused') {
+    // Offline and this product was never viewed, so nothing is cached
+    content = <ErrorMessage error={OFFLINE_ERROR} subject="product" onRetry={() => refetch()} />;
+  } else if (error && !isNotFound) {
     content = (
       <ErrorMessage 
-        message={error instanceof Error ? error.message : 'Failed to load product'} 
-        onRetry={() => window.location.reload()}
+        error={error}
+        subject="product"
+        onRetry={() => refetch()}
       />
     );
-  } else if (product) {
+  } else if (product && !isNotFound) {
     content = (
       <div className="product-detail-page">
         <div className="product-detail-page__back">
@@ -46,10 +92,10 @@ export const ProductDetailPage: React.FC = () => {
         
         <div className="product-detail-page__content">
           <div className="product-detail-page__image-section">
-            <img
-              src={product.thumbnail}
+            <ImageGallery
+              key={product.id}
+              images={product.images?.length ? product.images : [product.thumbnail]}
               alt={product.title}
-              className="product-detail-page__image"
             />
           </div>
           
@@ -64,26 +110,61 @@ export const ProductDetailPage: React.FC = () => {
               </span>
             </div>
             
-            <div className="product-detail-page__price">${product.price}</div>
+            <Price
+              amount={product.price}
+              discountPercentage={product.discountPercentage}
+              className="product-detail-page__price"
+            />
             
             <p className="product-detail-page__description">{product.description}</p>
             
             {product.stock !== undefined && (
               <div className={`product-detail-page__stock ${
-                product.stock > 0 ? 'product-detail-page__stock--in-stock' : 'product-detail-page__stock--out-of-stock'
+                product.stock === 0
+                  ? 'product-detail-page__stock--out-of-stock'
+                  : product.availabilityStatus === 'Low Stock'
+                    ? 'product-detail-page__stock--low-stock'
+                    : 'product-detail-page__stock--in-stock'
               }`}>
                 {product.stock > 0 ? `${product.stock} in stock` : 'Currently out of stock'}
               </div>
             )}
             
             <div className="product-detail-page__actions">
-              <button
-                className="product-detail-page__add-to-cart"
-                onClick={handleAddToCart}
-                disabled={product.stock === 0}
-              >
-                Add to Cart
-              </button>
+              {canChooseQuantity && (
+                <QuantitySelector
+                  value={quantitySelector.inputValue}
+                  min={minQuantity}
+                  max={maxQuantity}
+                  error={quantitySelector.error}
+                  onChange={quantitySelector.setInputValue}
+                  onIncrement={quantitySelector.increment}
+                  onDecrement={quantitySelector.decrement}
+                  disabled={isPlaceholderData}
+                  onBlur={quantitySelector.commit}
+                />
+              )}
+              <div className="product-detail-page__purchase">
+                <button
+                  className="product-detail-page__add-to-cart"
+                  onClick={addToCart}
+                  disabled={!canAddToCart}
+                >
+                  {isAtStockLimit ? 'Maximum in Cart' : 'Add to Cart'}
+                </button>
+                <WishlistButton productId={product.id} productTitle={product.title} />
+                {canChooseQuantity && (
+                  <div className="product-detail-page__line-total" aria-live="polite">
+                    <span className="product-detail-page__line-total-label">Total</span>
+                    <span className="product-detail-page__line-total-value">{formatPrice(lineTotal)}</span>
+                    {!!product.discountPercentage && (
+                      <span className="product-detail-page__line-total-discount">
+                        incl. {product.discountPercentage}% off
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
               
               <button
                 className="product-detail-page__back-button"
@@ -94,12 +175,20 @@ export const ProductDetailPage: React.FC = () => {
             </div>
           </div>
         </div>
+
+        <div className="product-detail-page__recently-viewed">
+          <RecentlyViewed
+            excludeId={product.id}
+            onProductClick={(viewed) => navigate(`/product/${viewed.id}`)}
+          />
+        </div>
       </div>
     );
   } else {
     content = (
       <div className="product-detail-page__not-found">
         <h2>Product not found</h2>
+        <p>This product does not exist or has been removed.</p>
         <Link to="/" className="product-detail-page__back-link">
           Back to products
         </Link>
@@ -0,0 +1,43 @@
+import './ProductDetailSkeleton.scss';
+
+interface ProductDetailSkeletonProps {
+  // The quick view drawer or the full detail page
+  variant: 'drawer' | 'page';
+}
+
+// Placeholder shaped like the loaded product, for the drawer and the detail page
+export const ProductDetailSkeleton: React.FC<ProductDetailSkeletonProps> = ({ variant }) => {
+  return (
+    <div
+      className={`product-detail-skeleton product-detail-skeleton--${variant}`}
+      role="status"
+      aria-busy="true"
+    >
+      <span className="product-detail-skeleton__sr-only">Loading product...</span>
+      <div className="product-detail-skeleton__media" aria-hidden="true">
+        <div className="product-detail-skeleton__image" />
+        <div className="product-detail-skeleton__thumbnails">
+          {Array.from({ length: 4 }, (_, index) => (
+            <div key={index} className="product-detail-skeleton__thumbnail" />
+          ))}
+        </div>
+      </div>
+      <div className="product-detail-skeleton__info" aria-hidden="true">
+        <div className="product-detail-skeleton__title" />
+        <div className="product-detail-skeleton__brand" />
+        <div className="product-detail-skeleton__rating" />
+        <div className="product-detail-skeleton__price" />
+        <div className="product-detail-skeleton__description">
+          <div className="product-detail-skeleton__line" />
+          <div className="product-detail-skeleton__line" />
+          <div className="product-detail-skeleton__line product-detail-skeleton__line--short" />
+        </div>
+        <div className="product-detail-skeleton__stock" />
+        <div className="product-detail-skeleton__actions">
+          <div className="product-detail-skeleton__quantity" />
+          <div className="product-detail-skeleton__button" />
+        </div>
+      </div>
+    </div>
+  );
+};
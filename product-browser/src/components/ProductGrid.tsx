@@ -0,0 +1,33 @@
+import { ProductCard } from './ProductCard';
+import type { Product } from '../types/product';
+import './ProductGrid.scss';
+
+interface ProductGridProps {
+  products: Product[];
+  onProductClick: (product: Product) => void;
+}
+
+// Shared by the paginated and the infinite product lists
+export const ProductGrid: React.FC<ProductGridProps> = ({ products, onProductClick }) => {
+  if (products.length === 0) {
+    return (
+      <div className="empty-state">
+        <h3>No products found</h3>
+        <p>Try adjusting your search terms, category or filters</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="product-grid">
+      {products.map(product => (
+        <ProductCard 
+          key={product.id} 
+          product={product} 
+          onClick={onProductClick}
+          opensDialog
+        />
+      ))}
+    </div>
+  );
+};
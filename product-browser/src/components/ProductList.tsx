@@ -1,67 +1,90 @@
 import { useProducts } from '../hooks/useProducts';
-import { usePagination } from '../hooks/usePagination';
-import { ProductCard } from './ProductCard';
+import { usePrefetchAdjacentPages } from '../hooks/usePrefetchAdjacentPages';
+import { ProductGrid } from './ProductGrid';
 import { Pagination } from './Pagination';
-import { LoadingSpinner } from './LoadingSpinner';
+import { ProductGridSkeleton } from './ProductCardSkeleton';
 import { ErrorMessage } from './ErrorMessage';
-import type { Product } from '../types/product';
+import { OFFLINE_ERROR } from '../api/apiError';
+import type { Product, ProductFilters, ProductSort } from '../types/product';
 import './ProductList.scss';
 
 interface ProductListProps {
   search: string;
+  page: number;
+  pageSize?: number;
+  category?: string;
+  sort?: ProductSort;
+  filters?: ProductFilters;
+  onPageChange: (page: number) => void;
+  onPageSizeChange?: (pageSize: number) => void;
   onProductClick: (product: Product) => void;
 }
 
 export const ProductList: React.FC<ProductListProps> = ({
   search,
+  page,
+  pageSize,
+  category = '',
+  sort,
+  filters,
+  onPageChange,
+  onPageSizeChange,
   onProductClick
 }) => {
-  // Use the custom pagination hook with automatic reset on search change
-  const { page, setPage } = usePagination(search, 1);
-  
-  const { data, isLoading, error, refetch } = useProducts({
+  const queryParams = {
     page,
-    search
-  });
+    search,
+    category: category || undefined,
+    sort,
+    filters,
+    pageSize
+  };
+  const { data, isLoading, isPlaceholderData, error, fetchStatus, refetch } = useProducts(queryParams);
+  usePrefetchAdjacentPages(queryParams, isPlaceholderData ? undefined : data?.totalPages);
 
   if (isLoading) {
-    return <LoadingSpinner />;
+    return <ProductGridSkeleton count={pageSize} />;
+  }
+
+  // Offline with nothing cached: the query waits for the connection instead of failing
+  if (!data && fetchStatus === 'paused') {
+    return <ErrorMessage error={OFFLINE_ERROR} onRetry={() => refetch()} />;
   }
   
   if (error) {
     return (
       <ErrorMessage 
-        message={error instanceof Error ? error.message : 'Failed to load products'} 
+        error={error}
         onRetry={() => refetch()}
       />
     );
   }
 
   if (!data?.products || data.products.length === 0) {
-    return (
-      <div className="empty-state">
-        <h3>No products found</h3>
-        <p>Try adjusting your search terms</p>
-      </div>
-    );
+    return <ProductGrid products={[]} onProductClick={onProductClick} />;
   }
 
   return (
     <>
-      <div className="product-grid">
-        {data.products.map(product => (
-          <ProductCard 
-            key={product.id} 
-            product={product} 
-            onClick={onProductClick}
-          />
-        ))}
+      {/* While the next page loads the current one stays visible, dimmed */}
+      <div
+        className={`product-list ${isPlaceholderData ? 'product-list--updating' : ''}`}
+        aria-busy={isPlaceholderData}
+      >
+        {isPlaceholderData && (
+          <div className="product-list__updating" role="status">
+            Updating…
+          </div>
+        )}
+        <ProductGrid products={data.products} onProductClick={onProductClick} />
       </div>
       
       <Pagination 
-        currentPage={data.page}
+        currentPage={isPlaceholderData ? page : data.page}
         totalPages={data.totalPages}
-        onPageChange={setPage}
+        onPageChange={onPageChange}
+        pageSize={pageSize}
+        onPageSizeChange={onPageSizeChange}
       />
     </>
   );
@@ -1,53 +1,197 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useDebounce } from '../hooks/useDebounce';
 import { useScrollLock } from '../hooks/useScrollLock';
+import { useProductQueryParams } from '../hooks/useProductQueryParams';
+import { useProducts } from '../hooks/useProducts';
+import { useInfiniteProducts } from '../hooks/useInfiniteProducts';
+import { useListMode } from '../hooks/useListMode';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
 import { SearchBar } from './SearchBar';
+import { SortSelect } from './SortSelect';
+import { ListModeToggle } from './ListModeToggle';
 import { ProductDetail } from './ProductDetail';
+import { CategoryFilter } from './CategoryFilter';
+import { FilterPanel } from './FilterPanel';
+import { RecentlyViewed } from './RecentlyViewed';
+import { CompareTray } from './CompareTray';
 import { ProductList } from './ProductList';
+import { InfiniteProductList } from './InfiniteProductList';
 import { Page } from './Page';
-import type { Product } from '../types/product';
+import type { Product, ProductFilters, ProductSort } from '../types/product';
 import './ProductPage.scss';
 
 export const ProductPage: React.FC = () => {
-  const [search, setSearch] = useState('');
-  const [selectedProductId, setSelectedProductId] = useState<number | null>(null);
+  const {
+    search,
+    page,
+    pageSize,
+    category,
+    sort,
+    filters,
+    productId,
+    setSearch,
+    setPage,
+    setPageSize,
+    setCategory,
+    setSort,
+    setFilters,
+    openProduct,
+    closeProduct
+  } = useProductQueryParams();
+  // The input updates on every keystroke; the URL only follows the debounced value
+  const [searchInput, setSearchInput] = useState(search);
+  // Lags behind the URL so the drawer stays mounted while it animates closed
+  const [drawerProductId, setDrawerProductId] = useState<number | null>(productId);
   
-  const debouncedSearch = useDebounce(search, 500);
+  const debouncedSearch = useDebounce(searchInput, 500);
+  const lastDebouncedSearch = useRef(debouncedSearch);
   
-  useScrollLock(!!selectedProductId);
+  const { listMode, setListMode } = useListMode();
+  const isInfinite = listMode === 'infinite';
+
+  // Same queries as the lists, so these share their cache entries and only read the facets
+  const { data: pageData } = useProducts({
+    page,
+    search,
+    category: category || undefined,
+    sort,
+    filters,
+    pageSize,
+    enabled: !isInfinite
+  });
+  const { data: infiniteData } = useInfiniteProducts({
+    search,
+    category: category || undefined,
+    sort,
+    filters,
+    enabled: isInfinite
+  });
+  const facets = isInfinite ? infiniteData?.pages[0]?.facets : pageData?.facets;
+
+  // Return to the same spot in the list when coming back from /product/:id
+  useScrollRestoration(isInfinite ? !!infiniteData : !!pageData);
+  
+  useScrollLock(!!drawerProductId);
+
+  useEffect(() => {
+    if (productId !== null) {
+      setDrawerProductId(productId);
+    }
+  }, [productId]);
+
+  // Commit the debounced search to the URL
+  useEffect(() => {
+    if (debouncedSearch !== lastDebouncedSearch.current) {
+      lastDebouncedSearch.current = debouncedSearch;
+      setSearch(debouncedSearch);
+    }
+  }, [debouncedSearch, setSearch]);
+
+  // Follow the URL when it changes underneath us (back/forward, pasted link)
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
 
   const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+  };
+
+  // Enter skips the debounce; marking the value as committed stops the
+  // debounced effect from applying it a second time
+  const handleSearchSubmit = (value: string) => {
+    lastDebouncedSearch.current = value;
     setSearch(value);
   };
 
+  const handleCategoryChange = (value: string) => {
+    setCategory(value);
+  };
+
+  const handleSortChange = (value: ProductSort | '') => {
+    setSort(value);
+  };
+
+  const handleFiltersChange = (value: ProductFilters) => {
+    setFilters(value);
+  };
+
   const handleProductClick = (product: Product) => {
-    setSelectedProductId(product.id);
+    openProduct(product.id);
   };
 
-  const handleCloseDetail = () => {
-    setSelectedProductId(null);
+  const handleDetailExited = () => {
+    setDrawerProductId(null);
   };
 
   const content = (
     <>
-      <SearchBar 
-        value={search} 
-        onChange={handleSearchChange}
-      />
+      <div className="product-page__toolbar">
+        <SearchBar 
+          value={searchInput} 
+          onChange={handleSearchChange}
+          onSubmit={handleSearchSubmit}
+          onCategorySelect={handleCategoryChange}
+        />
+        <SortSelect
+          value={sort ?? ''}
+          onChange={handleSortChange}
+        />
+        <ListModeToggle
+          value={listMode}
+          onChange={setListMode}
+        />
+      </div>
       
-      <ProductList
-        search={debouncedSearch}
-        onProductClick={handleProductClick}
+      <CategoryFilter
+        value={category}
+        onChange={handleCategoryChange}
       />
+
+      <RecentlyViewed onProductClick={handleProductClick} />
       
-      {selectedProductId && (
+      <div className="product-page__layout">
+        <FilterPanel
+          filters={filters}
+          facets={facets}
+          onChange={handleFiltersChange}
+        />
+        <div className="product-page__results">
+          {isInfinite ? (
+            <InfiniteProductList
+              search={search}
+              category={category}
+              sort={sort}
+              filters={filters}
+              onProductClick={handleProductClick}
+            />
+          ) : (
+            <ProductList
+              search={search}
+              page={page}
+              pageSize={pageSize}
+              category={category}
+              sort={sort}
+              filters={filters}
+              onPageChange={setPage}
+              onPageSizeChange={setPageSize}
+              onProductClick={handleProductClick}
+            />
+          )}
+        </div>
+      </div>
+      
+      {drawerProductId && (
         <ProductDetail
-          productId={selectedProductId}
-          onClose={handleCloseDetail}
+          productId={drawerProductId}
+          isOpen={productId !== null}
+          onClose={closeProduct}
+          onExited={handleDetailExited}
         />
       )}
+
+      <CompareTray />
     </>
   );
 
   return <Page className="product-page" header="Product Browser" content={content} />;
-};
\ No newline at end of file
+};
@@ -0,0 +1,78 @@
+import { useId } from 'react';
+import './QuantitySelector.scss';
+
+interface QuantitySelectorProps {
+  value: string;
+  min: number;
+  max?: number;
+  error: string | null;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+  onIncrement: () => void;
+  onDecrement: () => void;
+  onBlur?: () => void;
+}
+
+export const QuantitySelector: React.FC<QuantitySelectorProps> = ({
+  value,
+  min,
+  max,
+  error,
+  disabled = false,
+  onChange,
+  onIncrement,
+  onDecrement,
+  onBlur
+}) => {
+  const inputId = useId();
+  const errorId = `${inputId}-error`;
+  const numericValue = Number(value);
+
+  return (
+    <div className={`quantity-selector ${error ? 'quantity-selector--invalid' : ''}`}>
+      <label htmlFor={inputId} className="quantity-selector__label">
+        Quantity
+      </label>
+      <div className="quantity-selector__controls">
+        <button
+          type="button"
+          className="quantity-selector__button"
+          onClick={onDecrement}
+          disabled={disabled || numericValue <= min}
+          aria-label="Decrease quantity"
+        >
+          −
+        </button>
+        <input
+          id={inputId}
+          type="number"
+          inputMode="numeric"
+          className="quantity-selector__input"
+          value={value}
+          min={min}
+          max={max}
+          step={1}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          aria-invalid={!!error}
+          aria-describedby={error ? errorId : undefined}
+        />
+        <button
+          type="button"
+          className="quantity-selector__button"
+          onClick={onIncrement}
+          disabled={disabled || (max !== undefined && numericValue >= max)}
+          aria-label="Increase quantity"
+        >
+          +
+        </button>
+      </div>
+      {error && (
+        <p id={errorId} className="quantity-selector__error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useProduct } from '../hooks/useProduct';
+import { useRecentlyViewed } from '../hooks/useRecentlyViewed';
+import { findCachedProduct } from '../utils/productCache';
+import { Price } from './Price';
+import type { Product } from '../types/product';
+import './RecentlyViewed.scss';
+
+interface RecentlyViewedProps {
+  // Left out of the row, e.g. the product on the current detail page
+  excludeId?: number;
+  onProductClick: (product: Product) => void;
+}
+
+interface RecentlyViewedItemProps {
+  productId: number;
+  onProductClick: (product: Product) => void;
+}
+
+const RecentlyViewedItem: React.FC<RecentlyViewedItemProps> = ({ productId, onProductClick }) => {
+  const queryClient = useQueryClient();
+  // Seeded from any cached list so the row renders before the refetch lands
+  const { data: product, isLoading } = useProduct(productId, {
+    placeholderData: () => findCachedProduct(queryClient, productId),
+  });
+
+  if (!product) {
+    // Products that failed to load (e.g. removed from the catalog) are skipped
+    return isLoading ? <li className="recently-viewed__item recently-viewed__item--loading" /> : null;
+  }
+
+  return (
+    <li className="recently-viewed__item">
+      <button
+        type="button"
+        className="recently-viewed__card"
+        onClick={() => onProductClick(product)}
+      >
+        <img
+          src={product.thumbnail}
+          alt=""
+          className="recently-viewed__image"
+          loading="lazy"
+        />
+        <span className="recently-viewed__title">{product.title}</span>
+        <Price
+          amount={product.price}
+          discountPercentage={product.discountPercentage}
+          className="recently-viewed__price"
+        />
+      </button>
+    </li>
+  );
+};
+
+export const RecentlyViewed: React.FC<RecentlyViewedProps> = ({ excludeId, onProductClick }) => {
+  const { productIds } = useRecentlyViewed();
+  const visibleIds = productIds.filter((id) => id !== excludeId);
+
+  if (visibleIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="recently-viewed" aria-labelledby="recently-viewed-heading">
+      <h2 id="recently-viewed-heading" className="recently-viewed__heading">
+        Recently viewed
+      </h2>
+      <ul className="recently-viewed__list">
+        {visibleIds.map((productId) => (
+          <RecentlyViewedItem
+            key={productId}
+            productId={productId}
+            onProductClick={onProductClick}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+};
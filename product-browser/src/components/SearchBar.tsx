@@ -1,26 +1,191 @@
+import { useEffect, useId, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSearchSuggestions } from '../hooks/useSearchSuggestions';
+import type { SearchSuggestion } from '../types/product';
 import './SearchBar.scss';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
+  // Enter without a highlighted suggestion applies the typed search straight away
+  onSubmit?: (value: string) => void;
+  // Category suggestions are only offered when the page can apply them
+  onCategorySelect?: (category: string) => void;
   placeholder?: string;
 }
 
+const getSuggestionLabel = (suggestion: SearchSuggestion): string => {
+  switch (suggestion.type) {
+    case 'product':
+      return suggestion.product.title;
+    case 'brand':
+      return suggestion.value;
+    case 'category':
+      return suggestion.value.replace(/-/g, ' ');
+  }
+};
+
+const SUGGESTION_TYPE_LABELS: Record<SearchSuggestion['type'], string> = {
+  product: 'Product',
+  brand: 'Brand',
+  category: 'Category',
+};
+
+/**
+ * Search input with a suggestion list, following the ARIA 1.2 combobox pattern:
+ * focus stays in the input and aria-activedescendant points at the active option
+ */
 export const SearchBar: React.FC<SearchBarProps> = ({ 
   value, 
   onChange, 
+  onSubmit,
+  onCategorySelect,
   placeholder = "Search products..." 
 }) => {
+  const navigate = useNavigate();
+  const listboxId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const { suggestions: allSuggestions, isFetching } = useSearchSuggestions(value);
+  const suggestions = onCategorySelect
+    ? allSuggestions
+    : allSuggestions.filter((suggestion) => suggestion.type !== 'category');
+  const isExpanded = isOpen && suggestions.length > 0;
+
+  // A new list starts with nothing highlighted
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [allSuggestions]);
+
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    close();
+    switch (suggestion.type) {
+      case 'product':
+        navigate(`/product/${suggestion.product.id}`);
+        break;
+      case 'brand':
+        onChange(suggestion.value);
+        break;
+      case 'category':
+        onChange('');
+        onCategorySelect?.(suggestion.value);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!isExpanded) {
+          setIsOpen(true);
+          return;
+        }
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (!isExpanded) {
+          setIsOpen(true);
+          return;
+        }
+        setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        if (isExpanded && activeIndex >= 0) {
+          e.preventDefault();
+          selectSuggestion(suggestions[activeIndex]);
+        } else {
+          e.preventDefault();
+          close();
+          onSubmit?.(value);
+        }
+        break;
+      case 'Escape':
+        // First Escape closes the list, the next one clears the input
+        if (isExpanded) {
+          close();
+        } else {
+          onChange('');
+        }
+        break;
+    }
+  };
+
   return (
-    <div className="search-bar">
+    <div className={`search-bar ${isFetching ? 'search-bar--loading' : ''}`}>
       <input
         type="text"
+        role="combobox"
         value={value}
-        onChange={(e) => onChange(e.target.value)}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={close}
         placeholder={placeholder}
         className="search-bar__input"
         aria-label="Search products"
+        aria-autocomplete="list"
+        aria-expanded={isExpanded}
+        aria-controls={listboxId}
+        aria-activedescendant={isExpanded && activeIndex >= 0 ? getOptionId(activeIndex) : undefined}
+        autoComplete="off"
       />
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label="Search suggestions"
+        className="search-bar__listbox"
+        hidden={!isExpanded}
+      >
+        {suggestions.map((suggestion, index) => (
+          <li
+            key={suggestion.type === 'product'
+              ? `product-${suggestion.product.id}`
+              : `${suggestion.type}-${suggestion.value}`}
+            id={getOptionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            className={`search-bar__option ${
+              index === activeIndex ? 'search-bar__option--active' : ''
+            }`}
+            // Keep focus in the input so the click isn't lost to blur
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => selectSuggestion(suggestion)}
+            onMouseMove={() => setActiveIndex(index)}
+          >
+            {suggestion.type === 'product' && (
+              <img
+                src={suggestion.product.thumbnail}
+                alt=""
+                className="search-bar__option-image"
+              />
+            )}
+            <span className="search-bar__option-label">{getSuggestionLabel(suggestion)}</span>
+            <span className="search-bar__option-type">
+              {suggestion.type === 'product' && suggestion.product.brand
+                ? suggestion.product.brand
+                : SUGGESTION_TYPE_LABELS[suggestion.type]}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="search-bar__status" role="status" aria-live="polite">
+        {isExpanded
+          ? `${suggestions.length} ${suggestions.length === 1 ? 'suggestion' : 'suggestions'} available`
+          : ''}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,31 @@
+import { SORT_OPTIONS } from '../constants/sorting';
+import type { ProductSort } from '../types/product';
+import './SortSelect.scss';
+
+interface SortSelectProps {
+  value: ProductSort | '';
+  onChange: (value: ProductSort | '') => void;
+}
+
+export const SortSelect: React.FC<SortSelectProps> = ({ value, onChange }) => {
+  return (
+    <div className="sort-select">
+      <label htmlFor="product-sort" className="sort-select__label">
+        Sort by
+      </label>
+      <select
+        id="product-sort"
+        className="sort-select__input"
+        value={value}
+        onChange={(e) => onChange(e.target.value as ProductSort | '')}
+      >
+        <option value="">Relevance</option>
+        {(Object.keys(SORT_OPTIONS) as ProductSort[]).map((key) => (
+          <option key={key} value={key}>
+            {SORT_OPTIONS[key].label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
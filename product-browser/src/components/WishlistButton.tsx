@@ -0,0 +1,36 @@
+import { useWishlist } from '../hooks/useWishlist';
+import './WishlistButton.scss';
+
+interface WishlistButtonProps {
+  productId: number;
+  productTitle: string;
+  className?: string;
+}
+
+export const WishlistButton: React.FC<WishlistButtonProps> = ({
+  productId,
+  productTitle,
+  className = '',
+}) => {
+  const { isSaved, toggleItem } = useWishlist();
+  const saved = isSaved(productId);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards open the quick view on click
+    e.stopPropagation();
+    toggleItem(productId);
+  };
+
+  return (
+    <button
+      type="button"
+      className={`wishlist-button ${saved ? 'wishlist-button--saved' : ''} ${className}`}
+      aria-pressed={saved}
+      aria-label={saved ? `Remove ${productTitle} from wishlist` : `Save ${productTitle} to wishlist`}
+      title={saved ? 'Remove from wishlist' : 'Save to wishlist'}
+      onClick={handleClick}
+    >
+      <span aria-hidden="true">{saved ? '♥' : '♡'}</span>
+    </button>
+  );
+};
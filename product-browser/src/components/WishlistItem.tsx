@@ -0,0 +1,53 @@
+import { useProduct } from '../hooks/useProduct';
+import { useWishlist } from '../hooks/useWishlist';
+import { isApiError } from '../api/apiError';
+import { ProductCard } from './ProductCard';
+import { ProductCardSkeleton } from './ProductCardSkeleton';
+import type { Product } from '../types/product';
+import './WishlistItem.scss';
+
+interface WishlistItemProps {
+  productId: number;
+  onProductClick: (product: Product) => void;
+}
+
+// Fetched individually so saved items always show the current price and stock
+export const WishlistItem: React.FC<WishlistItemProps> = ({ productId, onProductClick }) => {
+  const { data: product, isLoading, error, refetch } = useProduct(productId);
+  const { removeItem } = useWishlist();
+
+  if (product) {
+    return <ProductCard product={product} onClick={onProductClick} />;
+  }
+
+  if (isLoading) {
+    return <ProductCardSkeleton />;
+  }
+
+  // The catalog no longer has this product
+  const isRemoved = isApiError(error) && error.kind === 'notFound';
+
+  return (
+    <div className="wishlist-item" role="group" aria-label="Unavailable saved product">
+      <p className="wishlist-item__message">
+        {isRemoved
+          ? 'This product is no longer available.'
+          : "We couldn't load this saved product."}
+      </p>
+      <div className="wishlist-item__actions">
+        {!isRemoved && (
+          <button type="button" className="wishlist-item__button" onClick={() => refetch()}>
+            Try Again
+          </button>
+        )}
+        <button
+          type="button"
+          className="wishlist-item__button wishlist-item__button--secondary"
+          onClick={() => removeItem(productId)}
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Link } from 'react-router-dom';
+import { useWishlist } from '../hooks/useWishlist';
+import './WishlistLink.scss';
+
+export const WishlistLink: React.FC = () => {
+  const { productIds } = useWishlist();
+  const count = productIds.length;
+  const label = `Wishlist, ${count} ${count === 1 ? 'item' : 'items'}`;
+
+  return (
+    <Link to="/wishlist" className="wishlist-link" aria-label={label}>
+      <span className="wishlist-link__icon" aria-hidden="true">♥</span>
+      {count > 0 && (
+        <span className="wishlist-link__count" aria-hidden="true">
+          {count > 99 ? '99+' : count}
+        </span>
+      )}
+    </Link>
+  );
+};
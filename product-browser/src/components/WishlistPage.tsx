@@ -0,0 +1,46 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { useWishlist } from '../hooks/useWishlist';
+import { WishlistItem } from './WishlistItem';
+import { CompareTray } from './CompareTray';
+import { Page } from './Page';
+import type { Product } from '../types/product';
+import './ProductGrid.scss';
+import './WishlistPage.scss';
+
+export const WishlistPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { productIds } = useWishlist();
+
+  const handleProductClick = (product: Product) => {
+    navigate(`/product/${product.id}`);
+  };
+
+  const content = (
+    <div className="wishlist-page__content">
+      <Link to="/" className="wishlist-page__back-link">
+        ← Back to products
+      </Link>
+
+      {productIds.length === 0 ? (
+        <div className="empty-state">
+          <h3>Your wishlist is empty</h3>
+          <p>Tap the heart on any product to save it for later</p>
+        </div>
+      ) : (
+        <div className="product-grid">
+          {productIds.map((productId) => (
+            <WishlistItem
+              key={productId}
+              productId={productId}
+              onProductClick={handleProductClick}
+            />
+          ))}
+        </div>
+      )}
+
+      <CompareTray />
+    </div>
+  );
+
+  return <Page className="wishlist-page" header="Wishlist" content={content} />;
+};
@@ -0,0 +1,5 @@
+/**
+ * Most products the comparison tray and table hold at once
+ */
+
+export const MAX_COMPARE_ITEMS = 4;
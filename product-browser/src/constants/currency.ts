@@ -0,0 +1,22 @@
+import type { CurrencyCode } from '../types/currency';
+
+/**
+ * Currencies offered in the header switcher. Catalog prices are in USD and
+ * each rate converts one US dollar into that currency; the rates are a fixed
+ * snapshot rather than live quotes
+ */
+
+interface CurrencyOption {
+  label: string;
+  rate: number;
+}
+
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyOption> = {
+  USD: { label: 'US Dollar', rate: 1 },
+  EUR: { label: 'Euro', rate: 0.92 },
+  GBP: { label: 'British Pound', rate: 0.79 },
+  JPY: { label: 'Japanese Yen', rate: 149.5 },
+  CAD: { label: 'Canadian Dollar', rate: 1.36 },
+};
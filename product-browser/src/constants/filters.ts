@@ -0,0 +1,13 @@
+/**
+ * Filter options offered in the filter panel
+ * Keep these in sync with PRICE_RANGES and RATING_OPTIONS in ProductsController.cs
+ */
+
+export const PRICE_RANGES = [
+  { min: 0, max: 25 },
+  { min: 25, max: 100 },
+  { min: 100, max: 500 },
+  { min: 500, max: null },
+] as const;
+
+export const RATING_OPTIONS = [4, 3, 2, 1] as const;
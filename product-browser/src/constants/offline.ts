@@ -0,0 +1,16 @@
+/**
+ * Settings for keeping the React Query cache in IndexedDB between visits
+ */
+
+export const QUERY_CACHE_DB_NAME = 'product-browser';
+export const QUERY_CACHE_KEY = 'product-browser:query-cache';
+
+// Persisted queries older than this are dropped on restore; also used as the
+// cache's gcTime so restored entries are not collected straight away
+export const QUERY_CACHE_MAX_AGE_MS = 1000 * 60 * 60 * 24;
+
+// Bump when the shape of cached data changes so old caches are discarded
+export const QUERY_CACHE_BUSTER = 'v1';
+
+// Cache writes are batched; the cache changes on every fetch
+export const PERSIST_THROTTLE_MS = 1000;
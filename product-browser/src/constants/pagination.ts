@@ -0,0 +1,8 @@
+/**
+ * Page sizes offered by the pagination controls
+ * The custom backend accepts any page size from 1 to 100
+ */
+
+export const PAGE_SIZE_OPTIONS = [12, 24, 48] as const;
+
+export const DEFAULT_PAGE_SIZE = 12;
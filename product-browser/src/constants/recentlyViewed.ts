@@ -0,0 +1,5 @@
+/**
+ * How many products the "Recently viewed" history keeps
+ */
+
+export const RECENTLY_VIEWED_LIMIT = 12;
@@ -0,0 +1,7 @@
+/**
+ * Search-as-you-type settings for the search bar suggestions
+ */
+
+export const SUGGESTION_DEBOUNCE_MS = 250;
+export const MIN_SUGGESTION_LENGTH = 2;
+export const SUGGESTION_LIMIT = 5;
@@ -0,0 +1,20 @@
+import type { Product, ProductSort } from '../types/product';
+
+/**
+ * Sort options offered in the product grid, with the DummyJSON
+ * sortBy/order parameters each one maps to
+ */
+
+interface SortOption {
+  label: string;
+  sortBy: keyof Product;
+  order: 'asc' | 'desc';
+}
+
+export const SORT_OPTIONS: Record<ProductSort, SortOption> = {
+  'price-asc': { label: 'Price: Low to High', sortBy: 'price', order: 'asc' },
+  'price-desc': { label: 'Price: High to Low', sortBy: 'price', order: 'desc' },
+  rating: { label: 'Top Rated', sortBy: 'rating', order: 'desc' },
+  title: { label: 'Name: A to Z', sortBy: 'title', order: 'asc' },
+  discount: { label: 'Biggest Discount', sortBy: 'discountPercentage', order: 'desc' },
+};
@@ -0,0 +1,12 @@
+/**
+ * localStorage keys used to persist client-side state between sessions
+ */
+
+export const STORAGE_KEYS = {
+  CART: 'product-browser:cart',
+  LIST_MODE: 'product-browser:list-mode',
+  CURRENCY: 'product-browser:currency',
+  WISHLIST: 'product-browser:wishlist',
+  RECENTLY_VIEWED: 'product-browser:recently-viewed',
+  COMPARE: 'product-browser:compare',
+} as const;
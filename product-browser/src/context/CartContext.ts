@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import type { CartItem } from '../types/cart';
+import type { Product } from '../types/product';
+
+export interface CartContextValue {
+  items: CartItem[];
+  totalQuantity: number;
+  subtotal: number;
+  addItem: (product: Product, quantity?: number) => void;
+  removeItem: (productId: number) => void;
+  updateQuantity: (productId: number, quantity: number) => void;
+  clearCart: () => void;
+  getQuantity: (productId: number) => number;
+}
+
+export const CartContext = createContext<CartContextValue | null>(null);
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo, useReducer } from 'react';
+import type { ReactNode } from 'react';
+import { CartContext } from './CartContext';
+import type { CartContextValue } from './CartContext';
+import { cartReducer } from './cartReducer';
+import { STORAGE_KEYS } from '../constants/storage';
+import { readStorage, writeStorage } from '../utils/storage';
+import { getLineTotal } from '../utils/pricing';
+import type { CartItem } from '../types/cart';
+import type { Product } from '../types/product';
+
+interface CartProviderProps {
+  children: ReactNode;
+}
+
+const isOptionalNumber = (value: unknown): boolean =>
+  value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+const isCartItem = (value: unknown): value is CartItem => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const item = value as Record<string, unknown>;
+  return (
+    Number.isInteger(item.productId) && (item.productId as number) > 0 &&
+    typeof item.title === 'string' &&
+    typeof item.price === 'number' && Number.isFinite(item.price) &&
+    typeof item.thumbnail === 'string' &&
+    Number.isInteger(item.quantity) && (item.quantity as number) > 0 &&
+    isOptionalNumber(item.stock) &&
+    isOptionalNumber(item.discountPercentage)
+  );
+};
+
+// One damaged line should not cost the user the rest of their cart
+const readCartItems = (value: unknown): CartItem[] => {
+  return Array.isArray(value) ? value.filter(isCartItem) : [];
+};
+
+/**
+ * Holds the shopping cart and mirrors it to localStorage so it survives reloads
+ */
+export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
+  const [items, dispatch] = useReducer(
+    cartReducer,
+    [],
+    () => {
+      return readCartItems(readStorage<unknown>(STORAGE_KEYS.CART, []));
+    }
+  );
+
+  useEffect(() => {
+    writeStorage(STORAGE_KEYS.CART, items);
+  }, [items]);
+
+  const addItem = useCallback((product: Product, quantity: number = 1) => {
+    dispatch({ type: 'add', product, quantity });
+  }, []);
+
+  const removeItem = useCallback((productId: number) => {
+    dispatch({ type: 'remove', productId });
+  }, []);
+
+  const updateQuantity = useCallback((productId: number, quantity: number) => {
+    dispatch({ type: 'updateQuantity', productId, quantity });
+  }, []);
+
+  const clearCart = useCallback(() => {
+    dispatch({ type: 'clear' });
+  }, []);
+
+  const getQuantity = useCallback(
+    (productId: number) => items.find((item) => item.productId === productId)?.quantity ?? 0,
+    [items]
+  );
+
+  const value = useMemo<CartContextValue>(() => ({
+    items,
+    totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: items.reduce(
+      (sum, item) => sum + getLineTotal(item.price, item.quantity, item.discountPercentage),
+      0
+    ),
+    addItem,
+    removeItem,
+    updateQuantity,
+    clearCart,
+    getQuantity,
+  }), [items, addItem, removeItem, updateQuantity, clearCart, getQuantity]);
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
@@ -0,0 +1,14 @@
+import { createContext } from 'react';
+
+export interface CompareContextValue {
+  // Selected product ids in the order they were ticked
+  productIds: number[];
+  isFull: boolean;
+  isSelected: (productId: number) => boolean;
+  // Ignored when adding to a full tray
+  toggleItem: (productId: number) => void;
+  removeItem: (productId: number) => void;
+  clear: () => void;
+}
+
+export const CompareContext = createContext<CompareContextValue | null>(null);
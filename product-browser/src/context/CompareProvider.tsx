@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { CompareContext } from './CompareContext';
+import type { CompareContextValue } from './CompareContext';
+import { MAX_COMPARE_ITEMS } from '../constants/compare';
+import { STORAGE_KEYS } from '../constants/storage';
+import { isProductIdList, readStorage, writeStorage } from '../utils/storage';
+
+interface CompareProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Holds the products ticked for comparison and mirrors them to localStorage
+ */
+export const CompareProvider: React.FC<CompareProviderProps> = ({ children }) => {
+  const [productIds, setProductIds] = useState<number[]>(() => {
+    const stored = readStorage<unknown>(STORAGE_KEYS.COMPARE, []);
+    return isProductIdList(stored) ? stored.slice(0, MAX_COMPARE_ITEMS) : [];
+  });
+
+  useEffect(() => {
+    writeStorage(STORAGE_KEYS.COMPARE, productIds);
+  }, [productIds]);
+
+  const toggleItem = useCallback((productId: number) => {
+    setProductIds((ids) => {
+      if (ids.includes(productId)) {
+        return ids.filter((id) => id !== productId);
+      }
+      return ids.length < MAX_COMPARE_ITEMS ? [...ids, productId] : ids;
+    });
+  }, []);
+
+  const removeItem = useCallback((productId: number) => {
+    setProductIds((ids) => ids.filter((id) => id !== productId));
+  }, []);
+
+  const clear = useCallback(() => {
+    setProductIds([]);
+  }, []);
+
+  const isSelected = useCallback(
+    (productId: number) => productIds.includes(productId),
+    [productIds]
+  );
+
+  const value = useMemo<CompareContextValue>(() => ({
+    productIds,
+    isFull: productIds.length >= MAX_COMPARE_ITEMS,
+    isSelected,
+    toggleItem,
+    removeItem,
+    clear,
+  }), [productIds, isSelected, toggleItem, removeItem, clear]);
+
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>;
+};
@@ -0,0 +1,12 @@
+import { createContext } from 'react';
+import type { FormatPriceOptions } from '../utils/formatters';
+import type { CurrencyCode } from '../types/currency';
+
+export interface CurrencyContextValue {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+  // Formats a catalog (USD) amount in the selected currency
+  formatPrice: (amount: number, options?: FormatPriceOptions) => string;
+}
+
+export const CurrencyContext = createContext<CurrencyContextValue | null>(null);
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { CurrencyContext } from './CurrencyContext';
+import type { CurrencyContextValue } from './CurrencyContext';
+import { BASE_CURRENCY, CURRENCIES } from '../constants/currency';
+import { STORAGE_KEYS } from '../constants/storage';
+import { formatPrice as formatPriceIn } from '../utils/formatters';
+import type { FormatPriceOptions } from '../utils/formatters';
+import { readStorage, writeStorage } from '../utils/storage';
+import type { CurrencyCode } from '../types/currency';
+
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+const isCurrencyCode = (value: unknown): value is CurrencyCode => {
+  return typeof value === 'string' && Object.hasOwn(CURRENCIES, value);
+};
+
+/**
+ * Holds the display currency and remembers it in localStorage
+ */
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const [currency, setCurrency] = useState<CurrencyCode>(() => {
+    const stored = readStorage<unknown>(STORAGE_KEYS.CURRENCY, BASE_CURRENCY);
+    return isCurrencyCode(stored) ? stored : BASE_CURRENCY;
+  });
+
+  useEffect(() => {
+    writeStorage(STORAGE_KEYS.CURRENCY, currency);
+  }, [currency]);
+
+  const formatPrice = useCallback(
+    (amount: number, options?: FormatPriceOptions) => formatPriceIn(amount, currency, options),
+    [currency]
+  );
+
+  const value = useMemo<CurrencyContextValue>(
+    () => ({ currency, setCurrency, formatPrice }),
+    [currency, formatPrice]
+  );
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+};
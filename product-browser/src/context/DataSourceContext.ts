@@ -0,0 +1,6 @@
+import { createContext } from 'react';
+import { productsApi } from '../api/productsApi';
+import type { ProductDataSource } from '../api/dataSource';
+
+// Defaults to the configured source, so hooks work without a provider
+export const DataSourceContext = createContext<ProductDataSource>(productsApi);
@@ -0,0 +1,20 @@
+import type { ReactNode } from 'react';
+import { DataSourceContext } from './DataSourceContext';
+import { productsApi } from '../api/productsApi';
+import type { ProductDataSource } from '../api/dataSource';
+
+interface DataSourceProviderProps {
+  // Defaults to the source picked by configuration
+  dataSource?: ProductDataSource;
+  children: ReactNode;
+}
+
+/**
+ * Supplies the product data source to the data hooks, e.g. fixtures in tests
+ */
+export const DataSourceProvider: React.FC<DataSourceProviderProps> = ({
+  dataSource = productsApi,
+  children
+}) => {
+  return <DataSourceContext.Provider value={dataSource}>{children}</DataSourceContext.Provider>;
+};
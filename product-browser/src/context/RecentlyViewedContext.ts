@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+
+export interface RecentlyViewedContextValue {
+  // Viewed product ids, most recent first
+  productIds: number[];
+  recordView: (productId: number) => void;
+}
+
+export const RecentlyViewedContext = createContext<RecentlyViewedContextValue | null>(null);
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { RecentlyViewedContext } from './RecentlyViewedContext';
+import type { RecentlyViewedContextValue } from './RecentlyViewedContext';
+import { RECENTLY_VIEWED_LIMIT } from '../constants/recentlyViewed';
+import { STORAGE_KEYS } from '../constants/storage';
+import { isProductIdList, readStorage, writeStorage } from '../utils/storage';
+
+interface RecentlyViewedProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Keeps a capped, de-duplicated history of viewed product ids in localStorage
+ */
+export const RecentlyViewedProvider: React.FC<RecentlyViewedProviderProps> = ({ children }) => {
+  const [productIds, setProductIds] = useState<number[]>(() => {
+    const stored = readStorage<unknown>(STORAGE_KEYS.RECENTLY_VIEWED, []);
+    return isProductIdList(stored) ? stored.slice(0, RECENTLY_VIEWED_LIMIT) : [];
+  });
+
+  useEffect(() => {
+    writeStorage(STORAGE_KEYS.RECENTLY_VIEWED, productIds);
+  }, [productIds]);
+
+  const recordView = useCallback((productId: number) => {
+    setProductIds((ids) => ids[0] === productId
+      ? ids
+      : [productId, ...ids.filter((id) => id !== productId)].slice(0, RECENTLY_VIEWED_LIMIT));
+  }, []);
+
+  const value = useMemo<RecentlyViewedContextValue>(
+    () => ({ productIds, recordView }),
+    [productIds, recordView]
+  );
+
+  return <RecentlyViewedContext.Provider value={value}>{children}</RecentlyViewedContext.Provider>;
+};
@@ -0,0 +1,11 @@
+import { createContext } from 'react';
+
+export interface WishlistContextValue {
+  // Saved product ids, most recently saved first
+  productIds: number[];
+  isSaved: (productId: number) => boolean;
+  toggleItem: (productId: number) => void;
+  removeItem: (productId: number) => void;
+}
+
+export const WishlistContext = createContext<WishlistContextValue | null>(null);
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { WishlistContext } from './WishlistContext';
+import type { WishlistContextValue } from './WishlistContext';
+import { STORAGE_KEYS } from '../constants/storage';
+import { isProductIdList, readStorage, writeStorage } from '../utils/storage';
+
+interface WishlistProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Holds the ids of saved products and mirrors them to localStorage. Only ids
+ * are stored so the wishlist always shows current prices and stock
+ */
+export const WishlistProvider: React.FC<WishlistProviderProps> = ({ children }) => {
+  const [productIds, setProductIds] = useState<number[]>(() => {
+    const stored = readStorage<unknown>(STORAGE_KEYS.WISHLIST, []);
+    return isProductIdList(stored) ? stored : [];
+  });
+
+  useEffect(() => {
+    writeStorage(STORAGE_KEYS.WISHLIST, productIds);
+  }, [productIds]);
+
+  const toggleItem = useCallback((productId: number) => {
+    setProductIds((ids) => ids.includes(productId)
+      ? ids.filter((id) => id !== productId)
+      : [productId, ...ids]);
+  }, []);
+
+  const removeItem = useCallback((productId: number) => {
+    setProductIds((ids) => ids.filter((id) => id !== productId));
+  }, []);
+
+  const isSaved = useCallback(
+    (productId: number) => productIds.includes(productId),
+    [productIds]
+  );
+
+  const value = useMemo<WishlistContextValue>(
+    () => ({ productIds, isSaved, toggleItem, removeItem }),
+    [productIds, isSaved, toggleItem, removeItem]
+  );
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>;
+};
@@ -0,0 +1,62 @@
+import type { CartItem } from '../types/cart';
+import type { Product } from '../types/product';
+
+export type CartAction =
+  | { type: 'add'; product: Product; quantity: number }
+  | { type: 'remove'; productId: number }
+  | { type: 'updateQuantity'; productId: number; quantity: number }
+  | { type: 'clear' };
+
+/**
+ * Clamp a requested quantity between 0 and the available stock (if known)
+ */
+export const clampQuantity = (quantity: number, stock?: number): number => {
+  const max = stock ?? Number.POSITIVE_INFINITY;
+  return Math.max(0, Math.min(Math.floor(quantity), max));
+};
+
+export const cartReducer = (items: CartItem[], action: CartAction): CartItem[] => {
+  switch (action.type) {
+    case 'add': {
+      const { product, quantity } = action;
+      const existing = items.find((item) => item.productId === product.id);
+      // Prefer the freshest stock figure; list payloads may omit it
+      const stock = product.stock ?? existing?.stock;
+      const nextQuantity = clampQuantity((existing?.quantity ?? 0) + quantity, stock);
+
+      if (nextQuantity === 0) {
+        return items.filter((item) => item.productId !== product.id);
+      }
+
+      const nextItem: CartItem = {
+        productId: product.id,
+        title: product.title,
+        price: product.price,
+        thumbnail: product.thumbnail,
+        quantity: nextQuantity,
+        stock,
+        discountPercentage: product.discountPercentage,
+      };
+
+      return existing
+        ? items.map((item) => (item.productId === product.id ? nextItem : item))
+        : [...items, nextItem];
+    }
+    case 'remove':
+      return items.filter((item) => item.productId !== action.productId);
+    case 'updateQuantity': {
+      const target = items.find((item) => item.productId === action.productId);
+      if (!target) {
+        return items;
+      }
+      const quantity = clampQuantity(action.quantity, target.stock);
+      return quantity === 0
+        ? items.filter((item) => item.productId !== action.productId)
+        : items.map((item) => (item.productId === action.productId ? { ...item, quantity } : item));
+    }
+    case 'clear':
+      return [];
+    default:
+      return items;
+  }
+};
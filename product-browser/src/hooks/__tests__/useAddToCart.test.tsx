@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAddToCart } from '../useAddToCart';
+import { useCart } from '../useCart';
+import { CartProvider } from '../../context/CartProvider';
+import type { Product } from '../../types/product';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <CartProvider>{children}</CartProvider>
+);
+
+const mockProduct: Product = {
+  id: 1,
+  title: 'Test Product',
+  description: 'Test Description',
+  price: 10,
+  thumbnail: 'https://example.com/thumb.jpg',
+  rating: 4.5,
+  brand: 'Test Brand',
+  category: 'Test Category',
+  stock: 5,
+  minimumOrderQuantity: 2,
+  discountPercentage: 10,
+};
+
+// Render the hook next to useCart so tests can see what was added
+const renderAddToCart = (product: Product | undefined, isPlaceholderData = false) =>
+  renderHook(
+    ({ product, isPlaceholderData }) => ({
+      addToCart: useAddToCart(product, isPlaceholderData),
+      cart: useCart(),
+    }),
+    { wrapper, initialProps: { product, isPlaceholderData } }
+  );
+
+describe('useAddToCart', () => {
+  it('should start at the minimum order quantity, bounded by stock', () => {
+    const { result } = renderAddToCart(mockProduct);
+
+    expect(result.current.addToCart.minQuantity).toBe(2);
+    expect(result.current.addToCart.maxQuantity).toBe(5);
+    expect(result.current.addToCart.quantitySelector.quantity).toBe(2);
+    expect(result.current.addToCart.canAddToCart).toBe(true);
+  });
+
+  it('should price the chosen quantity with the discount applied', () => {
+    const { result } = renderAddToCart(mockProduct);
+
+    expect(result.current.addToCart.lineTotal).toBe(18);
+  });
+
+  it('should add the chosen quantity and drop the minimum for further units', () => {
+    const { result } = renderAddToCart(mockProduct);
+
+    act(() => {
+      result.current.addToCart.addToCart();
+    });
+
+    expect(result.current.cart.getQuantity(1)).toBe(2);
+    expect(result.current.addToCart.minQuantity).toBe(1);
+    expect(result.current.addToCart.maxQuantity).toBe(3);
+    expect(result.current.addToCart.quantitySelector.inputValue).toBe('1');
+  });
+
+  it('should stop at the stock limit', () => {
+    const { result } = renderAddToCart({ ...mockProduct, minimumOrderQuantity: 5 });
+
+    act(() => {
+      result.current.addToCart.addToCart();
+    });
+
+    expect(result.current.addToCart.isAtStockLimit).toBe(true);
+    expect(result.current.addToCart.canChooseQuantity).toBe(false);
+    expect(result.current.addToCart.canAddToCart).toBe(false);
+  });
+
+  it('should not offer out-of-stock products', () => {
+    const { result } = renderAddToCart({ ...mockProduct, stock: 0 });
+
+    expect(result.current.addToCart.canChooseQuantity).toBe(false);
+    expect(result.current.addToCart.canAddToCart).toBe(false);
+  });
+
+  it('should not add anything while showing placeholder data', () => {
+    const { result, rerender } = renderAddToCart(mockProduct, true);
+
+    expect(result.current.addToCart.canAddToCart).toBe(false);
+
+    act(() => {
+      result.current.addToCart.addToCart();
+    });
+    expect(result.current.cart.totalQuantity).toBe(0);
+
+    rerender({ product: mockProduct, isPlaceholderData: false });
+
+    expect(result.current.addToCart.canAddToCart).toBe(true);
+  });
+
+  it('should do nothing without a product', () => {
+    const { result } = renderAddToCart(undefined);
+
+    act(() => {
+      result.current.addToCart.addToCart();
+    });
+
+    expect(result.current.addToCart.canAddToCart).toBe(false);
+    expect(result.current.addToCart.lineTotal).toBe(0);
+    expect(result.current.cart.totalQuantity).toBe(0);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useCart } from '../useCart';
+import { CartProvider } from '../../context/CartProvider';
+import { STORAGE_KEYS } from '../../constants/storage';
+import type { Product } from '../../types/product';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <CartProvider>{children}</CartProvider>
+);
+
+describe('useCart', () => {
+  const mockProduct: Product = {
+    id: 1,
+    title: 'Test Product',
+    description: 'Test Description',
+    price: 10,
+    thumbnail: 'https://example.com/thumb.jpg',
+    rating: 4.5,
+    brand: 'Test Brand',
+    category: 'Test Category',
+    stock: 3,
+  };
+
+  describe('initial state', () => {
+    it('should start with an empty cart', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      expect(result.current.items).toEqual([]);
+      expect(result.current.totalQuantity).toBe(0);
+      expect(result.current.subtotal).toBe(0);
+    });
+
+    it('should throw when used outside a CartProvider', () => {
+      expect(() => renderHook(() => useCart())).toThrow('useCart must be used within a CartProvider');
+    });
+
+    it('should restore items from localStorage', () => {
+      window.localStorage.setItem(STORAGE_KEYS.CART, JSON.stringify([
+        { productId: 1, title: 'Saved', price: 5, thumbnail: '', quantity: 2 },
+      ]));
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      expect(result.current.totalQuantity).toBe(2);
+      expect(result.current.getQuantity(1)).toBe(2);
+    });
+
+    it('should ignore corrupt localStorage data', () => {
+      window.localStorage.setItem(STORAGE_KEYS.CART, '{not json');
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      expect(result.current.items).toEqual([]);
+    });
+
+    it.each([
+      ['null', null],
+      ['an object', {}],
+    ])('should ignore stored data that is %s', (_, stored) => {
+      window.localStorage.setItem(STORAGE_KEYS.CART, JSON.stringify(stored));
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      expect(result.current.items).toEqual([]);
+      expect(result.current.totalQuantity).toBe(0);
+    });
+
+    it('should drop only the malformed items', () => {
+      window.localStorage.setItem(STORAGE_KEYS.CART, JSON.stringify([
+        { productId: 1, quantity: 2 },
+        { productId: 2, title: 'Saved', price: 5, thumbnail: '', quantity: '2' },
+        { productId: 3, title: 'Kept', price: 5, thumbnail: '', quantity: 2 },
+        null,
+      ]));
+
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      expect(result.current.items).toEqual([
+        { productId: 3, title: 'Kept', price: 5, thumbnail: '', quantity: 2 },
+      ]);
+    });
+  });
+
+  describe('adding items', () => {
+    it('should add a product with quantity 1 by default', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct);
+      });
+
+      expect(result.current.items).toHaveLength(1);
+      expect(result.current.items[0]).toMatchObject({ productId: 1, quantity: 1, stock: 3 });
+      expect(result.current.subtotal).toBe(10);
+    });
+
+    it('should apply the product discount to the subtotal', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem({ ...mockProduct, discountPercentage: 25 }, 2);
+      });
+
+      expect(result.current.subtotal).toBe(15);
+    });
+
+    it('should merge repeated adds into a single line', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct);
+        result.current.addItem(mockProduct, 1);
+      });
+
+      expect(result.current.items).toHaveLength(1);
+      expect(result.current.getQuantity(1)).toBe(2);
+    });
+
+    it('should not exceed available stock', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct, 2);
+        result.current.addItem(mockProduct, 5);
+      });
+
+      expect(result.current.getQuantity(1)).toBe(3);
+    });
+
+    it('should not add products that are out of stock', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem({ ...mockProduct, stock: 0 });
+      });
+
+      expect(result.current.items).toEqual([]);
+    });
+
+    it('should allow any quantity when stock is unknown', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem({ ...mockProduct, stock: undefined }, 50);
+      });
+
+      expect(result.current.getQuantity(1)).toBe(50);
+    });
+  });
+
+  describe('updating and removing items', () => {
+    it('should update quantity within stock limits', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct);
+      });
+
+      act(() => {
+        result.current.updateQuantity(1, 10);
+      });
+
+      expect(result.current.getQuantity(1)).toBe(3);
+    });
+
+    it('should remove the line when quantity is set to zero', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct);
+      });
+
+      act(() => {
+        result.current.updateQuantity(1, 0);
+      });
+
+      expect(result.current.items).toEqual([]);
+    });
+
+    it('should ignore updates for products not in the cart', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.updateQuantity(99, 2);
+      });
+
+      expect(result.current.items).toEqual([]);
+    });
+
+    it('should remove an item', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct);
+        result.current.addItem({ ...mockProduct, id: 2 });
+      });
+
+      act(() => {
+        result.current.removeItem(1);
+      });
+
+      expect(result.current.items.map((item) => item.productId)).toEqual([2]);
+    });
+
+    it('should clear the cart', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct);
+      });
+
+      act(() => {
+        result.current.clearCart();
+      });
+
+      expect(result.current.totalQuantity).toBe(0);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should persist changes to localStorage', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(mockProduct, 2);
+      });
+
+      const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEYS.CART) ?? '[]');
+      expect(stored).toEqual([expect.objectContaining({ productId: 1, quantity: 2 })]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor, createTestQueryClient } from '../../test/test-utils';
+import { useCategories } from '../useCategories';
+import type { Category } from '../../types/product';
+
+// Mock the API module
+vi.mock('../../api/productsApi', () => ({
+  productsApi: {
+    getCategories: vi.fn(),
+  },
+}));
+
+import { productsApi } from '../../api/productsApi';
+
+describe('useCategories', () => {
+  const mockCategories: Category[] = [
+    { slug: 'beauty', name: 'Beauty' },
+    { slug: 'smartphones', name: 'Smartphones' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should fetch categories successfully', async () => {
+    vi.mocked(productsApi.getCategories).mockResolvedValue(mockCategories);
+
+    const { result } = renderHook(() => useCategories());
+
+    expect(result.current.isLoading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.data).toEqual(mockCategories);
+    expect(productsApi.getCategories).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share cached categories between consumers', async () => {
+    vi.mocked(productsApi.getCategories).mockResolvedValue(mockCategories);
+
+    const queryClient = createTestQueryClient();
+    const { result: result1 } = renderHook(() => useCategories(), { queryClient });
+
+    await waitFor(() => {
+      expect(result1.current.isSuccess).toBe(true);
+    });
+
+    const { result: result2 } = renderHook(() => useCategories(), { queryClient });
+
+    expect(result2.current.data).toEqual(mockCategories);
+    expect(result2.current.isStale).toBe(false);
+    expect(productsApi.getCategories).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose errors', async () => {
+    vi.mocked(productsApi.getCategories).mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => useCategories());
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    expect(result.current.error?.message).toBe('Network error');
+  });
+});
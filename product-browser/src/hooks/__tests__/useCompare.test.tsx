@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useCompare } from '../useCompare';
+import { CompareProvider } from '../../context/CompareProvider';
+import { MAX_COMPARE_ITEMS } from '../../constants/compare';
+import { STORAGE_KEYS } from '../../constants/storage';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <CompareProvider>{children}</CompareProvider>
+);
+
+describe('useCompare', () => {
+  it('should start empty', () => {
+    const { result } = renderHook(() => useCompare(), { wrapper });
+
+    expect(result.current.productIds).toEqual([]);
+    expect(result.current.isFull).toBe(false);
+  });
+
+  it('should throw when used outside a CompareProvider', () => {
+    expect(() => renderHook(() => useCompare())).toThrow(
+      'useCompare must be used within a CompareProvider'
+    );
+  });
+
+  it('should add and remove products in the order they were ticked', () => {
+    const { result } = renderHook(() => useCompare(), { wrapper });
+
+    act(() => {
+      result.current.toggleItem(3);
+      result.current.toggleItem(1);
+    });
+
+    expect(result.current.productIds).toEqual([3, 1]);
+    expect(result.current.isSelected(1)).toBe(true);
+
+    act(() => {
+      result.current.toggleItem(3);
+    });
+
+    expect(result.current.productIds).toEqual([1]);
+  });
+
+  it(`should hold at most ${MAX_COMPARE_ITEMS} products`, () => {
+    const { result } = renderHook(() => useCompare(), { wrapper });
+
+    act(() => {
+      for (let id = 1; id <= MAX_COMPARE_ITEMS + 1; id++) {
+        result.current.toggleItem(id);
+      }
+    });
+
+    expect(result.current.productIds).toHaveLength(MAX_COMPARE_ITEMS);
+    expect(result.current.isFull).toBe(true);
+    expect(result.current.isSelected(MAX_COMPARE_ITEMS + 1)).toBe(false);
+  });
+
+  it('should still allow unticking when full', () => {
+    const { result } = renderHook(() => useCompare(), { wrapper });
+
+    act(() => {
+      for (let id = 1; id <= MAX_COMPARE_ITEMS; id++) {
+        result.current.toggleItem(id);
+      }
+    });
+    act(() => {
+      result.current.toggleItem(1);
+    });
+
+    expect(result.current.isFull).toBe(false);
+    expect(result.current.isSelected(1)).toBe(false);
+  });
+
+  it('should remove a single product and clear all', () => {
+    const { result } = renderHook(() => useCompare(), { wrapper });
+
+    act(() => {
+      result.current.toggleItem(1);
+      result.current.toggleItem(2);
+    });
+    act(() => {
+      result.current.removeItem(1);
+    });
+
+    expect(result.current.productIds).toEqual([2]);
+
+    act(() => {
+      result.current.clear();
+    });
+
+    expect(result.current.productIds).toEqual([]);
+  });
+
+  it('should persist the selection to localStorage', () => {
+    const { result } = renderHook(() => useCompare(), { wrapper });
+
+    act(() => {
+      result.current.toggleItem(5);
+    });
+
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEYS.COMPARE)!)).toEqual([5]);
+
+    const { result: restored } = renderHook(() => useCompare(), { wrapper });
+
+    expect(restored.current.productIds).toEqual([5]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useCurrency } from '../useCurrency';
+import { CurrencyProvider } from '../../context/CurrencyProvider';
+import { STORAGE_KEYS } from '../../constants/storage';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <CurrencyProvider>{children}</CurrencyProvider>
+);
+
+describe('useCurrency', () => {
+  it('should default to US dollars', () => {
+    const { result } = renderHook(() => useCurrency(), { wrapper });
+
+    expect(result.current.currency).toBe('USD');
+    expect(result.current.formatPrice(9.99, { locale: 'en-US' })).toBe('$9.99');
+  });
+
+  it('should throw when used outside a CurrencyProvider', () => {
+    expect(() => renderHook(() => useCurrency())).toThrow(
+      'useCurrency must be used within a CurrencyProvider'
+    );
+  });
+
+  it('should format prices in the selected currency', () => {
+    const { result } = renderHook(() => useCurrency(), { wrapper });
+
+    act(() => {
+      result.current.setCurrency('GBP');
+    });
+
+    expect(result.current.currency).toBe('GBP');
+    expect(result.current.formatPrice(10, { locale: 'en-US' })).toBe('£7.90');
+  });
+
+  it('should remember the currency in localStorage', () => {
+    const { result } = renderHook(() => useCurrency(), { wrapper });
+
+    act(() => {
+      result.current.setCurrency('EUR');
+    });
+
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEYS.CURRENCY)!)).toBe('EUR');
+
+    const { result: restored } = renderHook(() => useCurrency(), { wrapper });
+
+    expect(restored.current.currency).toBe('EUR');
+  });
+
+  it('should ignore unknown stored currencies', () => {
+    window.localStorage.setItem(STORAGE_KEYS.CURRENCY, JSON.stringify('toString'));
+
+    const { result } = renderHook(() => useCurrency(), { wrapper });
+
+    expect(result.current.currency).toBe('USD');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, waitFor } from '../../test/test-utils';
+import { useDataSource } from '../useDataSource';
+import { useProducts } from '../useProducts';
+import { useProduct } from '../useProduct';
+import { productsApi } from '../../api/productsApi';
+import { createFixtureDataSource } from '../../api/fixtureDataSource';
+import { FIXTURE_PRODUCTS } from '../../api/fixtures';
+
+describe('useDataSource', () => {
+  const dataSource = createFixtureDataSource(FIXTURE_PRODUCTS);
+
+  it('should default to the configured data source', () => {
+    const { result } = renderHook(() => useDataSource());
+
+    expect(result.current).toBe(productsApi);
+  });
+
+  it('should return the injected data source', () => {
+    const { result } = renderHook(() => useDataSource(), { dataSource });
+
+    expect(result.current).toBe(dataSource);
+  });
+
+  it('should let the product hooks load from fixtures without any network', async () => {
+    const { result } = renderHook(
+      () => ({
+        list: useProducts({ page: 1, search: '', category: 'laptops' }),
+        detail: useProduct(FIXTURE_PRODUCTS[0].id)
+      }),
+      { dataSource }
+    );
+
+    await waitFor(() => {
+      expect(result.current.list.isSuccess).toBe(true);
+      expect(result.current.detail.isSuccess).toBe(true);
+    });
+
+    expect(result.current.list.data?.products.every((product) => product.category === 'laptops')).toBe(true);
+    expect(result.current.detail.data).toEqual(FIXTURE_PRODUCTS[0]);
+  });
+
+  it('should surface fixture 404s as notFound errors', async () => {
+    const { result } = renderHook(() => useProduct(9999), { dataSource });
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    expect(result.current.error).toMatchObject({ kind: 'notFound' });
+  });
+});
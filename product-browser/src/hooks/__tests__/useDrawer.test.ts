@@ -193,6 +193,106 @@ describe('useDrawer', () => {
     });
   });
 
+  describe('closing via isOpen', () => {
+    beforeEach(() => {
+      // Only fake timeouts so the requestAnimationFrame spy stays in place
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should close the drawer when isOpen turns false', () => {
+      const { result, rerender } = renderHook(
+        ({ isOpen }) => useDrawer(isOpen),
+        {
+          initialProps: { isOpen: true },
+        }
+      );
+
+      expect(result.current.isDrawerOpen).toBe(true);
+
+      rerender({ isOpen: false });
+
+      expect(result.current.isDrawerOpen).toBe(false);
+    });
+
+    it('should call onExited after the closing transition', () => {
+      const onExited = vi.fn();
+      const { rerender } = renderHook(
+        ({ isOpen }) => useDrawer(isOpen, { onExited }),
+        {
+          initialProps: { isOpen: true },
+        }
+      );
+
+      rerender({ isOpen: false });
+
+      act(() => {
+        vi.advanceTimersByTime(ANIMATION_DURATIONS.DRAWER_TRANSITION - 1);
+      });
+      expect(onExited).not.toHaveBeenCalled();
+
+      act(() => {
+        vi.advanceTimersByTime(1);
+      });
+      expect(onExited).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call onExited for a drawer that was never opened', () => {
+      const onExited = vi.fn();
+      renderHook(() => useDrawer(false, { onExited }));
+
+      act(() => {
+        vi.advanceTimersByTime(ANIMATION_DURATIONS.DRAWER_TRANSITION);
+      });
+
+      expect(onExited).not.toHaveBeenCalled();
+    });
+
+    it('should cancel onExited when reopened during the transition', () => {
+      const onExited = vi.fn();
+      const { result, rerender } = renderHook(
+        ({ isOpen }) => useDrawer(isOpen, { onExited }),
+        {
+          initialProps: { isOpen: true },
+        }
+      );
+
+      rerender({ isOpen: false });
+      rerender({ isOpen: true });
+
+      act(() => {
+        vi.advanceTimersByTime(ANIMATION_DURATIONS.DRAWER_TRANSITION);
+      });
+
+      expect(onExited).not.toHaveBeenCalled();
+      expect(result.current.isDrawerOpen).toBe(true);
+    });
+
+    it('should use the latest onExited callback', () => {
+      const onExited1 = vi.fn();
+      const onExited2 = vi.fn();
+      const { rerender } = renderHook(
+        ({ isOpen, onExited }) => useDrawer(isOpen, { onExited }),
+        {
+          initialProps: { isOpen: true, onExited: onExited1 },
+        }
+      );
+
+      rerender({ isOpen: false, onExited: onExited1 });
+      rerender({ isOpen: false, onExited: onExited2 });
+
+      act(() => {
+        vi.advanceTimersByTime(ANIMATION_DURATIONS.DRAWER_TRANSITION);
+      });
+
+      expect(onExited1).not.toHaveBeenCalled();
+      expect(onExited2).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle rapid open/close transitions', () => {
       const { result, rerender } = renderHook(
@@ -247,6 +347,181 @@ describe('useDrawer', () => {
     });
   });
 
+  describe('dialog focus', () => {
+    let opener: HTMLButtonElement;
+    let dialog: HTMLDivElement;
+    let firstButton: HTMLButtonElement;
+    let lastButton: HTMLButtonElement;
+
+    // Attach the dialog element while closed, then open, as ProductDetail does on mount
+    const renderOpenDialog = (options?: Parameters<typeof useDrawer>[1]) => {
+      const hook = renderHook(
+        ({ isOpen }) => useDrawer(isOpen, options),
+        {
+          initialProps: { isOpen: false },
+        }
+      );
+      hook.result.current.dialogRef.current = dialog;
+      hook.rerender({ isOpen: true });
+      return hook;
+    };
+
+    const keyDown = (key: string, target: EventTarget, shiftKey = false) => ({
+      key,
+      shiftKey,
+      target,
+      preventDefault: vi.fn(),
+    }) as unknown as React.KeyboardEvent;
+
+    beforeEach(() => {
+      opener = document.createElement('button');
+      dialog = document.createElement('div');
+      dialog.tabIndex = -1;
+      firstButton = document.createElement('button');
+      lastButton = document.createElement('button');
+      dialog.append(firstButton, lastButton);
+      document.body.append(opener, dialog);
+      opener.focus();
+    });
+
+    afterEach(() => {
+      opener.remove();
+      dialog.remove();
+    });
+
+    it('should move focus into the dialog when opened', () => {
+      renderOpenDialog();
+
+      expect(document.activeElement).toBe(dialog);
+    });
+
+    it('should return focus to the opener when isOpen turns false', () => {
+      const { rerender } = renderOpenDialog();
+
+      rerender({ isOpen: false });
+
+      expect(document.activeElement).toBe(opener);
+    });
+
+    it('should return focus to the opener on unmount', () => {
+      const { unmount } = renderOpenDialog();
+
+      unmount();
+
+      expect(document.activeElement).toBe(opener);
+    });
+
+    it('should not focus an opener that has left the page', () => {
+      const { rerender } = renderOpenDialog();
+      opener.remove();
+
+      rerender({ isOpen: false });
+
+      expect(document.activeElement).toBe(dialog);
+    });
+
+    it('should close on Escape', () => {
+      const onClose = vi.fn();
+      const { result } = renderOpenDialog({ onClose });
+      const event = keyDown('Escape', dialog);
+
+      act(() => {
+        result.current.handleKeyDown(event);
+      });
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(result.current.isDrawerOpen).toBe(false);
+    });
+
+    it('should wrap Tab from the last element to the first', () => {
+      const { result } = renderOpenDialog();
+      lastButton.focus();
+      const event = keyDown('Tab', lastButton);
+
+      result.current.handleKeyDown(event);
+
+      expect(document.activeElement).toBe(firstButton);
+      expect(event.preventDefault).toHaveBeenCalled();
+    });
+
+    it('should wrap Shift+Tab from the first element to the last', () => {
+      const { result } = renderOpenDialog();
+      firstButton.focus();
+
+      result.current.handleKeyDown(keyDown('Tab', firstButton, true));
+
+      expect(document.activeElement).toBe(lastButton);
+    });
+
+    it('should wrap Shift+Tab from the dialog itself to the last element', () => {
+      const { result } = renderOpenDialog();
+
+      result.current.handleKeyDown(keyDown('Tab', dialog, true));
+
+      expect(document.activeElement).toBe(lastButton);
+    });
+
+    it('should let Tab move normally between inner elements', () => {
+      const { result } = renderOpenDialog();
+      firstButton.focus();
+      const event = keyDown('Tab', firstButton);
+
+      result.current.handleKeyDown(event);
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+      expect(document.activeElement).toBe(firstButton);
+    });
+
+    it('should skip disabled elements', () => {
+      lastButton.disabled = true;
+      const { result } = renderOpenDialog();
+      firstButton.focus();
+      const event = keyDown('Tab', firstButton);
+
+      result.current.handleKeyDown(event);
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(document.activeElement).toBe(firstButton);
+    });
+
+    it('should keep focus on the dialog when nothing inside is focusable', () => {
+      firstButton.remove();
+      lastButton.remove();
+      const { result } = renderOpenDialog();
+      const event = keyDown('Tab', dialog);
+
+      result.current.handleKeyDown(event);
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(document.activeElement).toBe(dialog);
+    });
+
+    it('should ignore Tab from elements outside the dialog, such as a portal', () => {
+      const { result } = renderOpenDialog();
+      const portalButton = document.createElement('button');
+      document.body.append(portalButton);
+      portalButton.focus();
+      const event = keyDown('Tab', portalButton);
+
+      result.current.handleKeyDown(event);
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+      expect(document.activeElement).toBe(portalButton);
+      portalButton.remove();
+    });
+
+    it('should ignore other keys', () => {
+      const onClose = vi.fn();
+      const { result } = renderOpenDialog({ onClose });
+      const event = keyDown('Enter', dialog);
+
+      result.current.handleKeyDown(event);
+
+      expect(onClose).not.toHaveBeenCalled();
+      expect(event.preventDefault).not.toHaveBeenCalled();
+    });
+  });
 
   describe('return value structure', () => {
     it('should return expected shape', () => {
@@ -256,6 +531,8 @@ describe('useDrawer', () => {
         expect.objectContaining({
           isDrawerOpen: expect.any(Boolean),
           handleClose: expect.any(Function),
+          handleKeyDown: expect.any(Function),
+          dialogRef: expect.objectContaining({ current: null }),
           transitionDuration: expect.any(Number),
         })
       );
@@ -265,9 +542,11 @@ describe('useDrawer', () => {
       const { result } = renderHook(() => useDrawer(false));
       
       const keys = Object.keys(result.current);
-      expect(keys).toHaveLength(3);
+      expect(keys).toHaveLength(5);
       expect(keys).toContain('isDrawerOpen');
       expect(keys).toContain('handleClose');
+      expect(keys).toContain('handleKeyDown');
+      expect(keys).toContain('dialogRef');
       expect(keys).toContain('transitionDuration');
     });
   });
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useFocusTrap } from '../useFocusTrap';
+
+describe('useFocusTrap', () => {
+  let opener: HTMLButtonElement;
+  let dialog: HTMLDivElement;
+  let firstButton: HTMLButtonElement;
+  let lastButton: HTMLButtonElement;
+
+  // Attach the dialog element before activating, as a mounted dialog would be
+  const renderTrap = (isActive = true) => {
+    const hook = renderHook(
+      ({ isActive }) => useFocusTrap(isActive),
+      {
+        initialProps: { isActive: false },
+      }
+    );
+    hook.result.current.dialogRef.current = dialog;
+    hook.rerender({ isActive });
+    return hook;
+  };
+
+  const keyDown = (target: EventTarget, shiftKey = false) => ({
+    key: 'Tab',
+    shiftKey,
+    target,
+    preventDefault: vi.fn(),
+  }) as unknown as React.KeyboardEvent;
+
+  beforeEach(() => {
+    opener = document.createElement('button');
+    dialog = document.createElement('div');
+    dialog.tabIndex = -1;
+    firstButton = document.createElement('button');
+    lastButton = document.createElement('button');
+    dialog.append(firstButton, lastButton);
+    document.body.append(opener, dialog);
+    opener.focus();
+  });
+
+  afterEach(() => {
+    opener.remove();
+    dialog.remove();
+  });
+
+  it('should move focus into the dialog when activated', () => {
+    renderTrap();
+
+    expect(document.activeElement).toBe(dialog);
+  });
+
+  it('should leave focus alone while inactive', () => {
+    renderTrap(false);
+
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it('should return focus to the opener when deactivated', () => {
+    const { rerender } = renderTrap();
+
+    rerender({ isActive: false });
+
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it('should return focus to the opener on unmount', () => {
+    const { unmount } = renderTrap();
+
+    unmount();
+
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it('should not focus an opener that has left the page', () => {
+    const { unmount } = renderTrap();
+    opener.remove();
+
+    unmount();
+
+    expect(document.activeElement).toBe(dialog);
+  });
+
+  it('should wrap Tab from the last element to the first', () => {
+    const { result } = renderTrap();
+    lastButton.focus();
+    const event = keyDown(lastButton);
+
+    result.current.handleKeyDown(event);
+
+    expect(document.activeElement).toBe(firstButton);
+    expect(event.preventDefault).toHaveBeenCalled();
+  });
+
+  it('should wrap Shift+Tab from the dialog itself to the last element', () => {
+    const { result } = renderTrap();
+
+    result.current.handleKeyDown(keyDown(dialog, true));
+
+    expect(document.activeElement).toBe(lastButton);
+  });
+
+  it('should ignore Tab from elements outside the dialog', () => {
+    const { result } = renderTrap();
+    opener.focus();
+    const event = keyDown(opener);
+
+    result.current.handleKeyDown(event);
+
+    expect(event.preventDefault).not.toHaveBeenCalled();
+    expect(document.activeElement).toBe(opener);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useImageGallery } from '../useImageGallery';
+
+const keyEvent = (key: string) => ({
+  key,
+  preventDefault: vi.fn(),
+  stopPropagation: vi.fn(),
+}) as unknown as React.KeyboardEvent;
+
+describe('useImageGallery', () => {
+  describe('navigation', () => {
+    it('should start on the first image', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+
+      expect(result.current.activeIndex).toBe(0);
+      expect(result.current.isLightboxOpen).toBe(false);
+      expect(result.current.isZoomed).toBe(false);
+    });
+
+    it('should move to the next and previous image', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+
+      act(() => {
+        result.current.showNext();
+      });
+      expect(result.current.activeIndex).toBe(1);
+
+      act(() => {
+        result.current.showPrevious();
+      });
+      expect(result.current.activeIndex).toBe(0);
+    });
+
+    it('should wrap around at either end', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+
+      act(() => {
+        result.current.showPrevious();
+      });
+      expect(result.current.activeIndex).toBe(2);
+
+      act(() => {
+        result.current.showNext();
+      });
+      expect(result.current.activeIndex).toBe(0);
+    });
+
+    it('should jump to a thumbnail', () => {
+      const { result } = renderHook(() => useImageGallery(5));
+
+      act(() => {
+        result.current.showImage(3);
+      });
+
+      expect(result.current.activeIndex).toBe(3);
+    });
+
+    it('should ignore navigation without images', () => {
+      const { result } = renderHook(() => useImageGallery(0));
+
+      act(() => {
+        result.current.showNext();
+      });
+
+      expect(result.current.activeIndex).toBe(0);
+    });
+  });
+
+  describe('keyboard', () => {
+    it('should navigate with the arrow keys', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+      const right = keyEvent('ArrowRight');
+
+      act(() => {
+        result.current.handleKeyDown(right);
+      });
+      expect(result.current.activeIndex).toBe(1);
+      expect(right.preventDefault).toHaveBeenCalled();
+
+      act(() => {
+        result.current.handleKeyDown(keyEvent('ArrowLeft'));
+      });
+      expect(result.current.activeIndex).toBe(0);
+    });
+
+    it('should jump to the first and last image with Home and End', () => {
+      const { result } = renderHook(() => useImageGallery(4));
+
+      act(() => {
+        result.current.handleKeyDown(keyEvent('End'));
+      });
+      expect(result.current.activeIndex).toBe(3);
+
+      act(() => {
+        result.current.handleKeyDown(keyEvent('Home'));
+      });
+      expect(result.current.activeIndex).toBe(0);
+    });
+
+    it('should leave other keys alone', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+      const tab = keyEvent('Tab');
+
+      act(() => {
+        result.current.handleKeyDown(tab);
+      });
+
+      expect(result.current.activeIndex).toBe(0);
+      expect(tab.preventDefault).not.toHaveBeenCalled();
+    });
+
+    it('should close the lightbox with Escape without letting it bubble', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+      const escape = keyEvent('Escape');
+
+      act(() => {
+        result.current.openLightbox();
+      });
+      act(() => {
+        result.current.handleKeyDown(escape);
+      });
+
+      expect(result.current.isLightboxOpen).toBe(false);
+      expect(escape.stopPropagation).toHaveBeenCalled();
+    });
+
+    it('should let Escape through when the lightbox is closed', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+      const escape = keyEvent('Escape');
+
+      act(() => {
+        result.current.handleKeyDown(escape);
+      });
+
+      expect(escape.stopPropagation).not.toHaveBeenCalled();
+      expect(escape.preventDefault).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('lightbox and zoom', () => {
+    it('should open and close the lightbox', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+
+      act(() => {
+        result.current.openLightbox();
+      });
+      expect(result.current.isLightboxOpen).toBe(true);
+
+      act(() => {
+        result.current.closeLightbox();
+      });
+      expect(result.current.isLightboxOpen).toBe(false);
+    });
+
+    it('should toggle zoom', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+
+      act(() => {
+        result.current.toggleZoom();
+      });
+      expect(result.current.isZoomed).toBe(true);
+
+      act(() => {
+        result.current.toggleZoom();
+      });
+      expect(result.current.isZoomed).toBe(false);
+    });
+
+    it('should reset zoom when changing image or closing', () => {
+      const { result } = renderHook(() => useImageGallery(3));
+
+      act(() => {
+        result.current.openLightbox();
+        result.current.toggleZoom();
+      });
+      act(() => {
+        result.current.showNext();
+      });
+      expect(result.current.isZoomed).toBe(false);
+
+      act(() => {
+        result.current.toggleZoom();
+      });
+      act(() => {
+        result.current.closeLightbox();
+      });
+      expect(result.current.isZoomed).toBe(false);
+    });
+  });
+});
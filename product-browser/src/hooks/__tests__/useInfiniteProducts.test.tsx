@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '../../test/test-utils';
+import { useInfiniteProducts } from '../useInfiniteProducts';
+import type { Product, ProductsResponse } from '../../types/product';
+
+// Mock the API module
+vi.mock('../../api/productsApi', () => ({
+  productsApi: {
+    getProducts: vi.fn(),
+  },
+}));
+
+import { productsApi } from '../../api/productsApi';
+
+describe('useInfiniteProducts', () => {
+  const createProduct = (id: number): Product => ({
+    id,
+    title: `Product ${id}`,
+    description: `Description ${id}`,
+    price: 10 * id,
+    thumbnail: `https://example.com/thumb${id}.jpg`,
+    rating: 4,
+    brand: 'Brand',
+    category: 'Electronics',
+  });
+
+  const createPage = (page: number, totalPages: number = 2): ProductsResponse => ({
+    products: [createProduct(page * 2 - 1), createProduct(page * 2)],
+    total: totalPages * 2,
+    page,
+    totalPages,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(productsApi.getProducts).mockImplementation(async (page = 1) => createPage(page));
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should load the first page', async () => {
+    const { result } = renderHook(() => useInfiniteProducts({ search: 'phone' }));
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(productsApi.getProducts).toHaveBeenCalledWith(1, 'phone', {}, expect.any(AbortSignal));
+    expect(result.current.data?.pages).toHaveLength(1);
+    expect(result.current.hasNextPage).toBe(true);
+  });
+
+  it('should append the next page when fetching more', async () => {
+    const { result } = renderHook(() => useInfiniteProducts({ search: '' }));
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+    expect(result.current.data?.pages).toHaveLength(1);
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    await waitFor(() => {
+      expect(result.current.data?.pages).toHaveLength(2);
+    });
+    expect(productsApi.getProducts).toHaveBeenLastCalledWith(2, '', {}, expect.any(AbortSignal));
+    expect(result.current.data?.pages.flatMap((page) => page.products).map((p) => p.id))
+      .toEqual([1, 2, 3, 4]);
+  });
+
+  it('should stop after the last page', async () => {
+    vi.mocked(productsApi.getProducts).mockResolvedValue(createPage(1, 1));
+
+    const { result } = renderHook(() => useInfiniteProducts({ search: '' }));
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it('should pass category, sort and filters to the API', async () => {
+    const filters = { minRating: 4 };
+    const { result } = renderHook(() =>
+      useInfiniteProducts({ search: '', category: 'laptops', sort: 'price-asc', filters })
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(productsApi.getProducts).toHaveBeenCalledWith(
+      1,
+      '',
+      { category: 'laptops', sort: 'price-asc', filters },
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('should start over when the query changes', async () => {
+    const { result, rerender } = renderHook(
+      ({ search }) => useInfiniteProducts({ search }),
+      { initialProps: { search: 'phone' } }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    rerender({ search: 'laptop' });
+
+    await waitFor(() => {
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(1, 'laptop', {}, expect.any(AbortSignal));
+    });
+    await waitFor(() => {
+      expect(result.current.data?.pages).toHaveLength(1);
+    });
+  });
+
+  it('should not fetch when disabled', () => {
+    const { result } = renderHook(() => useInfiniteProducts({ search: '', enabled: false }));
+
+    expect(productsApi.getProducts).not.toHaveBeenCalled();
+    expect(result.current.data).toBeUndefined();
+  });
+});
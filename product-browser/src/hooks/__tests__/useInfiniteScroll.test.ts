@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useInfiniteScroll } from '../useInfiniteScroll';
+
+describe('useInfiniteScroll', () => {
+  let observerCallback: IntersectionObserverCallback;
+  const observe = vi.fn();
+  const disconnect = vi.fn();
+
+  const intersect = (isIntersecting: boolean) => {
+    act(() => {
+      observerCallback(
+        [{ isIntersecting } as IntersectionObserverEntry],
+        {} as IntersectionObserver
+      );
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(IntersectionObserver).mockImplementation((callback) => {
+      observerCallback = callback;
+      return { observe, disconnect, unobserve: vi.fn() } as unknown as IntersectionObserver;
+    });
+  });
+
+  it('should observe the sentinel once attached', () => {
+    const sentinel = document.createElement('div');
+    const { result } = renderHook(() => useInfiniteScroll(vi.fn()));
+
+    act(() => {
+      result.current(sentinel);
+    });
+
+    expect(observe).toHaveBeenCalledWith(sentinel);
+  });
+
+  it('should load more when the sentinel comes into view', () => {
+    const onLoadMore = vi.fn();
+    const { result } = renderHook(() => useInfiniteScroll(onLoadMore));
+
+    act(() => {
+      result.current(document.createElement('div'));
+    });
+    intersect(false);
+    expect(onLoadMore).not.toHaveBeenCalled();
+
+    intersect(true);
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the latest callback without re-observing', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ onLoadMore }) => useInfiniteScroll(onLoadMore),
+      { initialProps: { onLoadMore: first } }
+    );
+
+    act(() => {
+      result.current(document.createElement('div'));
+    });
+    rerender({ onLoadMore: second });
+    intersect(true);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(observe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not observe while disabled', () => {
+    const { result } = renderHook(() => useInfiniteScroll(vi.fn(), { enabled: false }));
+
+    act(() => {
+      result.current(document.createElement('div'));
+    });
+
+    expect(IntersectionObserver).not.toHaveBeenCalled();
+  });
+
+  it('should disconnect when disabled or unmounted', () => {
+    const { result, rerender, unmount } = renderHook(
+      ({ enabled }) => useInfiniteScroll(vi.fn(), { enabled }),
+      { initialProps: { enabled: true } }
+    );
+
+    act(() => {
+      result.current(document.createElement('div'));
+    });
+    rerender({ enabled: false });
+    expect(disconnect).toHaveBeenCalledTimes(1);
+
+    rerender({ enabled: true });
+    unmount();
+    expect(disconnect).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pass the root margin to the observer', () => {
+    const { result } = renderHook(() => useInfiniteScroll(vi.fn(), { rootMargin: '100px' }));
+
+    act(() => {
+      result.current(document.createElement('div'));
+    });
+
+    expect(IntersectionObserver).toHaveBeenCalledWith(expect.any(Function), { rootMargin: '100px' });
+  });
+});
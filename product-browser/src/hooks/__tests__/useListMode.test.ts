@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useListMode } from '../useListMode';
+import { STORAGE_KEYS } from '../../constants/storage';
+
+describe('useListMode', () => {
+  it('should default to pages', () => {
+    const { result } = renderHook(() => useListMode());
+
+    expect(result.current.listMode).toBe('pages');
+  });
+
+  it('should persist the chosen mode', () => {
+    const { result } = renderHook(() => useListMode());
+
+    act(() => {
+      result.current.setListMode('infinite');
+    });
+
+    expect(result.current.listMode).toBe('infinite');
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEYS.LIST_MODE)!)).toBe('infinite');
+  });
+
+  it('should restore the mode from localStorage', () => {
+    window.localStorage.setItem(STORAGE_KEYS.LIST_MODE, JSON.stringify('infinite'));
+
+    const { result } = renderHook(() => useListMode());
+
+    expect(result.current.listMode).toBe('infinite');
+  });
+
+  it('should ignore unknown stored values', () => {
+    window.localStorage.setItem(STORAGE_KEYS.LIST_MODE, JSON.stringify('carousel'));
+
+    const { result } = renderHook(() => useListMode());
+
+    expect(result.current.listMode).toBe('pages');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useOnlineStatus } from '../useOnlineStatus';
+
+describe('useOnlineStatus', () => {
+  const setOnline = (isOnline: boolean) => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(isOnline);
+    window.dispatchEvent(new Event(isOnline ? 'online' : 'offline'));
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report the current connection status', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    const { result } = renderHook(() => useOnlineStatus());
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should update when the browser goes offline and back online', () => {
+    const { result } = renderHook(() => useOnlineStatus());
+    expect(result.current).toBe(true);
+
+    act(() => setOnline(false));
+    expect(result.current).toBe(false);
+
+    act(() => setOnline(true));
+    expect(result.current).toBe(true);
+  });
+
+  it('should stop listening on unmount', () => {
+    const removeSpy = vi.spyOn(window, 'removeEventListener');
+
+    const { unmount } = renderHook(() => useOnlineStatus());
+    unmount();
+
+    expect(removeSpy).toHaveBeenCalledWith('online', expect.any(Function));
+    expect(removeSpy).toHaveBeenCalledWith('offline', expect.any(Function));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, createTestQueryClient } from '../../test/test-utils';
+import { usePrefetchAdjacentPages } from '../usePrefetchAdjacentPages';
+import type { ProductsResponse } from '../../types/product';
+
+vi.mock('../../api/productsApi', () => ({
+  productsApi: {
+    getProducts: vi.fn(),
+  },
+}));
+
+import { productsApi } from '../../api/productsApi';
+
+const makeResponse = (page: number): ProductsResponse => ({
+  products: [],
+  total: 60,
+  page,
+  totalPages: 5,
+});
+
+describe('usePrefetchAdjacentPages', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(productsApi.getProducts).mockImplementation(async (page = 1) => makeResponse(page));
+  });
+
+  it('should prefetch the next and previous page of the same results', async () => {
+    const queryClient = createTestQueryClient();
+
+    renderHook(
+      () => usePrefetchAdjacentPages({ page: 3, search: 'phone', category: 'smartphones' }, 5),
+      { queryClient }
+    );
+
+    await waitFor(() => {
+      expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
+    });
+
+    expect(productsApi.getProducts).toHaveBeenCalledWith(
+      4, 'phone', { category: 'smartphones' }, expect.any(AbortSignal)
+    );
+    expect(productsApi.getProducts).toHaveBeenCalledWith(
+      2, 'phone', { category: 'smartphones' }, expect.any(AbortSignal)
+    );
+    await waitFor(() => {
+      expect(queryClient.getQueryData(['products', 4, 'phone', 'smartphones', undefined, undefined, undefined]))
+        .toEqual(makeResponse(4));
+    });
+  });
+
+  it('should not prefetch past the first or last page', async () => {
+    const { rerender } = renderHook(
+      ({ page }) => usePrefetchAdjacentPages({ page, search: '' }, 5),
+      { initialProps: { page: 1 }, queryClient: createTestQueryClient() }
+    );
+
+    await waitFor(() => {
+      expect(productsApi.getProducts).toHaveBeenCalledTimes(1);
+    });
+    expect(productsApi.getProducts).toHaveBeenLastCalledWith(2, '', {}, expect.any(AbortSignal));
+
+    rerender({ page: 5 });
+
+    await waitFor(() => {
+      expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
+    });
+    expect(productsApi.getProducts).toHaveBeenLastCalledWith(4, '', {}, expect.any(AbortSignal));
+  });
+
+  it('should wait until the page count is known', () => {
+    renderHook(() => usePrefetchAdjacentPages({ page: 1, search: '' }, undefined));
+
+    expect(productsApi.getProducts).not.toHaveBeenCalled();
+  });
+
+  it('should skip pages that are already cached', async () => {
+    const queryClient = createTestQueryClient();
+    queryClient.setQueryData(['products', 2, '', undefined, undefined, undefined, undefined], makeResponse(2));
+
+    renderHook(() => usePrefetchAdjacentPages({ page: 1, search: '' }, 5), { queryClient });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(productsApi.getProducts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act, createTestQueryClient } from '../../test/test-utils';
+import { usePrefetchProduct } from '../usePrefetchProduct';
+import { useProduct } from '../useProduct';
+import type { Product } from '../../types/product';
+
+vi.mock('../../api/productsApi', () => ({
+  productsApi: {
+    getProduct: vi.fn(),
+  },
+}));
+
+import { productsApi } from '../../api/productsApi';
+
+const makeProduct = (id: number): Product => ({
+  id,
+  title: `Product ${id}`,
+  description: '',
+  price: id * 10,
+  thumbnail: '',
+  rating: 4,
+  brand: 'Brand',
+  category: 'category',
+});
+
+describe('usePrefetchProduct', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(productsApi.getProduct).mockImplementation(async (id) => makeProduct(id));
+  });
+
+  it('should fill the cache entry useProduct reads', async () => {
+    const queryClient = createTestQueryClient();
+    const { result } = renderHook(() => usePrefetchProduct(), { queryClient });
+
+    act(() => result.current(5));
+
+    await waitFor(() => {
+      expect(queryClient.getQueryData(['product', 5])).toEqual(makeProduct(5));
+    });
+    expect(productsApi.getProduct).toHaveBeenCalledWith(5, expect.any(AbortSignal));
+
+    const { result: productResult } = renderHook(() => useProduct(5), { queryClient });
+
+    expect(productResult.current.isLoading).toBe(false);
+    expect(productResult.current.data).toEqual(makeProduct(5));
+    expect(productsApi.getProduct).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fetch a product that is already fresh in the cache', async () => {
+    const queryClient = createTestQueryClient();
+    queryClient.setQueryData(['product', 2], makeProduct(2));
+    const { result } = renderHook(() => usePrefetchProduct(), { queryClient });
+
+    act(() => result.current(2));
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(productsApi.getProduct).not.toHaveBeenCalled();
+  });
+
+  it('should only fetch once when prefetched repeatedly', async () => {
+    const queryClient = createTestQueryClient();
+    const { result } = renderHook(() => usePrefetchProduct(), { queryClient });
+
+    act(() => {
+      result.current(7);
+      result.current(7);
+    });
+
+    await waitFor(() => {
+      expect(queryClient.getQueryData(['product', 7])).toBeDefined();
+    });
+    act(() => result.current(7));
+
+    expect(productsApi.getProduct).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the same callback between renders', () => {
+    const { result, rerender } = renderHook(() => usePrefetchProduct(), {
+      queryClient: createTestQueryClient(),
+    });
+    const first = result.current;
+
+    rerender();
+
+    expect(result.current).toBe(first);
+  });
+});
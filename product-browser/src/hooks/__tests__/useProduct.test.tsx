@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor, createTestQueryClient } from '../../test/test-utils';
 import { useProduct } from '../useProduct';
+import { findCachedProduct } from '../../utils/productCache';
 import type { Product } from '../../types/product';
 
 // Mock the API module
@@ -57,7 +58,7 @@ describe('useProduct', () => {
       expect(result.current.error).toBe(null);
       
       // Verify API was called correctly
-      expect(productsApi.getProduct).toHaveBeenCalledWith(1);
+      expect(productsApi.getProduct).toHaveBeenCalledWith(1, expect.any(AbortSignal));
       expect(productsApi.getProduct).toHaveBeenCalledTimes(1);
     });
 
@@ -114,12 +115,60 @@ describe('useProduct', () => {
         expect(result.current.data).toEqual(secondProduct);
       });
 
-      expect(productsApi.getProduct).toHaveBeenCalledWith(1);
-      expect(productsApi.getProduct).toHaveBeenCalledWith(2);
+      expect(productsApi.getProduct).toHaveBeenCalledWith(1, expect.any(AbortSignal));
+      expect(productsApi.getProduct).toHaveBeenCalledWith(2, expect.any(AbortSignal));
       expect(productsApi.getProduct).toHaveBeenCalledTimes(2);
     });
   });
 
+  describe('placeholder data', () => {
+    it('should show a product from a cached list while fetching', async () => {
+      let resolveProduct: (product: Product) => void = () => {};
+      vi.mocked(productsApi.getProduct).mockReturnValue(
+        new Promise((resolve) => { resolveProduct = resolve; })
+      );
+
+      const queryClient = createTestQueryClient();
+      const listed = { ...mockProduct, price: 89.99 };
+      queryClient.setQueryData(['products', 1, ''], {
+        products: [listed],
+        total: 1,
+        page: 1,
+        totalPages: 1,
+      });
+
+      const { result } = renderHook(
+        () => useProduct(1, { placeholderData: () => findCachedProduct(queryClient, 1) }),
+        { queryClient }
+      );
+
+      expect(result.current.data).toEqual(listed);
+      expect(result.current.isPlaceholderData).toBe(true);
+
+      resolveProduct(mockProduct);
+
+      await waitFor(() => {
+        expect(result.current.isPlaceholderData).toBe(false);
+      });
+      expect(result.current.data).toEqual(mockProduct);
+    });
+
+    it('should find products in cached infinite lists', () => {
+      const queryClient = createTestQueryClient();
+      const second = { ...mockProduct, id: 2 };
+      queryClient.setQueryData(['products', 'infinite', ''], {
+        pages: [
+          { products: [mockProduct], total: 2, page: 1, totalPages: 2 },
+          { products: [second], total: 2, page: 2, totalPages: 2 },
+        ],
+        pageParams: [1, 2],
+      });
+
+      expect(findCachedProduct(queryClient, 2)).toEqual(second);
+      expect(findCachedProduct(queryClient, 3)).toBeUndefined();
+    });
+  });
+
   describe('disabled query behavior', () => {
     it('should not fetch when id is null', () => {
       renderHook(() => useProduct(null));
@@ -161,7 +210,7 @@ describe('useProduct', () => {
         expect(result.current.data).toEqual(mockProduct);
       });
 
-      expect(productsApi.getProduct).toHaveBeenCalledWith(1);
+      expect(productsApi.getProduct).toHaveBeenCalledWith(1, expect.any(AbortSignal));
     });
   });
 
@@ -278,7 +327,7 @@ describe('useProduct', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProduct).toHaveBeenCalledWith(-1);
+      expect(productsApi.getProduct).toHaveBeenCalledWith(-1, expect.any(AbortSignal));
     });
 
     it('should handle very large id', async () => {
@@ -291,7 +340,7 @@ describe('useProduct', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProduct).toHaveBeenCalledWith(largeId);
+      expect(productsApi.getProduct).toHaveBeenCalledWith(largeId, expect.any(AbortSignal));
     });
 
     it('should handle empty product response', async () => {
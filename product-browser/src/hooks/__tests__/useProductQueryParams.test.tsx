@@ -0,0 +1,311 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { MemoryRouter, useLocation, useNavigate } from 'react-router-dom';
+import { useProductQueryParams } from '../useProductQueryParams';
+
+const renderWithUrl = (initialEntry: string = '/') => {
+  return renderHook(
+    () => ({
+      params: useProductQueryParams(),
+      location: useLocation(),
+      navigate: useNavigate(),
+    }),
+    {
+      wrapper: ({ children }: { children: React.ReactNode }) => (
+        <MemoryRouter initialEntries={[initialEntry]}>{children}</MemoryRouter>
+      ),
+    }
+  );
+};
+
+describe('useProductQueryParams', () => {
+  describe('reading the URL', () => {
+    it('should use defaults when the URL has no params', () => {
+      const { result } = renderWithUrl('/');
+
+      expect(result.current.params.search).toBe('');
+      expect(result.current.params.page).toBe(1);
+      expect(result.current.params.category).toBe('');
+      expect(result.current.params.sort).toBeUndefined();
+    });
+
+    it('should read all params from the URL', () => {
+      const { result } = renderWithUrl('/?q=phone&page=3&category=smartphones&sort=price-asc');
+
+      expect(result.current.params.search).toBe('phone');
+      expect(result.current.params.page).toBe(3);
+      expect(result.current.params.category).toBe('smartphones');
+      expect(result.current.params.sort).toBe('price-asc');
+    });
+
+    it('should fall back to page 1 for invalid page values', () => {
+      const { result: notANumber } = renderWithUrl('/?page=abc');
+      const { result: negative } = renderWithUrl('/?page=-2');
+      const { result: fractional } = renderWithUrl('/?page=1.5');
+
+      expect(notANumber.current.params.page).toBe(1);
+      expect(negative.current.params.page).toBe(1);
+      expect(fractional.current.params.page).toBe(1);
+    });
+
+    it('should ignore unknown sort values', () => {
+      const { result } = renderWithUrl('/?sort=cheapest');
+
+      expect(result.current.params.sort).toBeUndefined();
+    });
+
+    it('should ignore sort values inherited from Object.prototype', () => {
+      for (const sort of ['toString', 'constructor', '__proto__']) {
+        const { result } = renderWithUrl(`/?sort=${sort}`);
+
+        expect(result.current.params.sort).toBeUndefined();
+      }
+    });
+  });
+
+  describe('updating the URL', () => {
+    it('should write the page to the URL', () => {
+      const { result } = renderWithUrl('/?q=phone');
+
+      act(() => {
+        result.current.params.setPage(2);
+      });
+
+      expect(result.current.location.search).toBe('?q=phone&page=2');
+      expect(result.current.params.page).toBe(2);
+    });
+
+    it('should omit page 1 from the URL', () => {
+      const { result } = renderWithUrl('/?page=4');
+
+      act(() => {
+        result.current.params.setPage(1);
+      });
+
+      expect(result.current.location.search).toBe('');
+    });
+
+    it('should reset the page when the search changes', () => {
+      const { result } = renderWithUrl('/?q=phone&page=3');
+
+      act(() => {
+        result.current.params.setSearch('laptop');
+      });
+
+      expect(result.current.location.search).toBe('?q=laptop');
+    });
+
+    it('should not touch the URL when the search is unchanged', () => {
+      const { result } = renderWithUrl('/?q=phone&page=3');
+
+      act(() => {
+        result.current.params.setSearch('phone');
+      });
+
+      expect(result.current.location.search).toBe('?q=phone&page=3');
+    });
+
+    it('should reset the page when the category changes', () => {
+      const { result } = renderWithUrl('/?page=3');
+
+      act(() => {
+        result.current.params.setCategory('laptops');
+      });
+
+      expect(result.current.location.search).toBe('?category=laptops');
+    });
+
+    it('should reset the page and remove the sort when cleared', () => {
+      const { result } = renderWithUrl('/?sort=rating&page=2');
+
+      act(() => {
+        result.current.params.setSort('');
+      });
+
+      expect(result.current.location.search).toBe('');
+    });
+  });
+
+  describe('page size', () => {
+    it('should default to 12 and ignore unsupported sizes', () => {
+      const { result: fallback } = renderWithUrl('/');
+      const { result: unsupported } = renderWithUrl('/?pageSize=1000');
+
+      expect(fallback.current.params.pageSize).toBe(12);
+      expect(unsupported.current.params.pageSize).toBe(12);
+    });
+
+    it('should read a supported page size from the URL', () => {
+      const { result } = renderWithUrl('/?pageSize=48');
+
+      expect(result.current.params.pageSize).toBe(48);
+    });
+
+    it('should keep the first visible product on screen when changing size', () => {
+      const { result } = renderWithUrl('/?q=phone&page=5');
+
+      act(() => {
+        result.current.params.setPageSize(24);
+      });
+
+      expect(result.current.location.search).toBe('?q=phone&page=3&pageSize=24');
+    });
+
+    it('should omit the default page size from the URL', () => {
+      const { result } = renderWithUrl('/?pageSize=48&page=2');
+
+      act(() => {
+        result.current.params.setPageSize(12);
+      });
+
+      expect(result.current.location.search).toBe('?page=5');
+    });
+  });
+
+  describe('filters', () => {
+    it('should read the filters from the URL', () => {
+      const { result } = renderWithUrl('/?minPrice=25&maxPrice=100&minRating=4');
+
+      expect(result.current.params.filters).toEqual({ minPrice: 25, maxPrice: 100, minRating: 4 });
+    });
+
+    it('should ignore invalid filter values', () => {
+      const { result } = renderWithUrl('/?minPrice=cheap&maxPrice=-5&minRating=');
+
+      expect(result.current.params.filters).toEqual({});
+    });
+
+    it('should keep the same filters object between renders', () => {
+      const { result, rerender } = renderWithUrl('/?minRating=4');
+      const first = result.current.params.filters;
+
+      rerender();
+
+      expect(result.current.params.filters).toBe(first);
+    });
+
+    it('should write the filters and reset the page', () => {
+      const { result } = renderWithUrl('/?q=phone&page=3');
+
+      act(() => {
+        result.current.params.setFilters({ minPrice: 100, maxPrice: 500 });
+      });
+
+      expect(result.current.location.search).toBe('?q=phone&minPrice=100&maxPrice=500');
+      expect(result.current.params.filters).toEqual({ minPrice: 100, maxPrice: 500 });
+    });
+
+    it('should drop filters that are no longer set', () => {
+      const { result } = renderWithUrl('/?minPrice=100&maxPrice=500&minRating=4');
+
+      act(() => {
+        result.current.params.setFilters({ minRating: 4 });
+      });
+
+      expect(result.current.location.search).toBe('?minRating=4');
+    });
+  });
+
+  describe('product drawer', () => {
+    it('should read the product id from the URL', () => {
+      const { result } = renderWithUrl('/?q=phone&product=42');
+
+      expect(result.current.params.productId).toBe(42);
+    });
+
+    it('should ignore invalid product ids', () => {
+      const { result } = renderWithUrl('/?product=abc');
+
+      expect(result.current.params.productId).toBe(null);
+    });
+
+    it('should keep the list query when opening a product', () => {
+      const { result } = renderWithUrl('/?q=phone&page=2');
+
+      act(() => {
+        result.current.params.openProduct(7);
+      });
+
+      expect(result.current.location.search).toBe('?q=phone&page=2&product=7');
+      expect(result.current.params.page).toBe(2);
+    });
+
+    it('should step back in history when closing a product opened from the list', () => {
+      const { result } = renderWithUrl('/?q=phone');
+
+      act(() => {
+        result.current.params.openProduct(7);
+      });
+      act(() => {
+        result.current.params.closeProduct();
+      });
+
+      expect(result.current.location.search).toBe('?q=phone');
+      expect(result.current.params.productId).toBe(null);
+    });
+
+    it('should close a deep-linked product without leaving the page', () => {
+      const { result } = renderWithUrl('/?product=42');
+
+      act(() => {
+        result.current.params.closeProduct();
+      });
+
+      expect(result.current.location.pathname).toBe('/');
+      expect(result.current.location.search).toBe('');
+    });
+
+    it('should close the product on browser Back', () => {
+      const { result } = renderWithUrl('/');
+
+      act(() => {
+        result.current.params.openProduct(3);
+      });
+      act(() => {
+        result.current.navigate(-1);
+      });
+
+      expect(result.current.params.productId).toBe(null);
+    });
+  });
+
+  describe('history', () => {
+    it('should support going back to the previous result page', () => {
+      const { result } = renderWithUrl('/');
+
+      act(() => {
+        result.current.params.setPage(2);
+      });
+      act(() => {
+        result.current.params.setPage(3);
+      });
+
+      expect(result.current.params.page).toBe(3);
+
+      act(() => {
+        result.current.navigate(-1);
+      });
+
+      expect(result.current.params.page).toBe(2);
+    });
+
+    it('should replace rather than push history entries for search', () => {
+      const { result } = renderWithUrl('/');
+
+      act(() => {
+        result.current.params.setPage(2);
+      });
+      act(() => {
+        result.current.params.setSearch('p');
+      });
+      act(() => {
+        result.current.params.setSearch('ph');
+      });
+      act(() => {
+        result.current.navigate(-1);
+      });
+
+      expect(result.current.location.search).toBe('');
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor, createTestQueryClient } from '../../test/test-utils';
 import { useProducts } from '../useProducts';
-import type { Product, ProductsResponse } from '../../types/product';
+import type { Product, ProductFilters, ProductSort, ProductsResponse } from '../../types/product';
 
 // Mock the API module
 vi.mock('../../api/productsApi', () => ({
@@ -73,7 +73,7 @@ describe('useProducts', () => {
       expect(result.current.error).toBe(null);
       
       // Verify API was called correctly
-      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '', {}, expect.any(AbortSignal));
       expect(productsApi.getProducts).toHaveBeenCalledTimes(1);
     });
 
@@ -90,7 +90,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(1, 'Product 1');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, 'Product 1', {}, expect.any(AbortSignal));
       expect(result.current.data?.products).toHaveLength(1);
     });
 
@@ -120,16 +120,18 @@ describe('useProducts', () => {
       // Change to page 2
       rerender({ page: 2, search: '' });
 
-      // Should show loading while fetching new page
-      expect(result.current.isLoading).toBe(true);
+      // Page 1 stays on screen as a placeholder while page 2 loads
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.isPlaceholderData).toBe(true);
+      expect(result.current.data?.page).toBe(1);
 
       // Wait for page 2
       await waitFor(() => {
         expect(result.current.data?.page).toBe(2);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '');
-      expect(productsApi.getProducts).toHaveBeenCalledWith(2, '');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '', {}, expect.any(AbortSignal));
+      expect(productsApi.getProducts).toHaveBeenCalledWith(2, '', {}, expect.any(AbortSignal));
       expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
     });
 
@@ -181,7 +183,28 @@ describe('useProducts', () => {
         expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
       });
 
-      expect(productsApi.getProducts).toHaveBeenLastCalledWith(2, '');
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(2, '', {}, expect.any(AbortSignal));
+    });
+
+    it('should not keep the previous results when the search changes', async () => {
+      vi.mocked(productsApi.getProducts)
+        .mockResolvedValueOnce(mockProductsResponse)
+        .mockReturnValueOnce(new Promise(() => {}));
+
+      const { result, rerender } = renderHook(
+        ({ page, search }) => useProducts({ page, search }),
+        { initialProps: { page: 1, search: '' } }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      rerender({ page: 1, search: 'phone' });
+
+      expect(result.current.isPlaceholderData).toBe(false);
+      expect(result.current.isLoading).toBe(true);
+      expect(result.current.data).toBeUndefined();
     });
 
     it('should refetch when search term changes', async () => {
@@ -205,7 +228,7 @@ describe('useProducts', () => {
         expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
       });
 
-      expect(productsApi.getProducts).toHaveBeenLastCalledWith(1, 'electronics');
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(1, 'electronics', {}, expect.any(AbortSignal));
     });
 
     it('should refetch when both page and search change', async () => {
@@ -229,7 +252,278 @@ describe('useProducts', () => {
         expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
       });
 
-      expect(productsApi.getProducts).toHaveBeenLastCalledWith(3, 'laptop');
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(3, 'laptop', {}, expect.any(AbortSignal));
+    });
+  });
+
+  describe('request cancellation', () => {
+    // Resolves only when told to, and records the signal each request received
+    const mockPendingRequests = () => {
+      const signals: AbortSignal[] = [];
+      vi.mocked(productsApi.getProducts).mockImplementation((_page, _search, _options, signal) => {
+        signals.push(signal!);
+        return new Promise<ProductsResponse>(() => {});
+      });
+      return signals;
+    };
+
+    it('should pass an abort signal to the API', async () => {
+      const signals = mockPendingRequests();
+
+      renderHook(() => useProducts({ page: 1, search: 'phone' }));
+
+      await waitFor(() => {
+        expect(signals).toHaveLength(1);
+      });
+
+      expect(signals[0]).toBeInstanceOf(AbortSignal);
+      expect(signals[0].aborted).toBe(false);
+    });
+
+    it('should abort superseded requests while typing', async () => {
+      const signals = mockPendingRequests();
+
+      const { rerender } = renderHook(
+        ({ search }) => useProducts({ page: 1, search }),
+        { initialProps: { search: 'p' } }
+      );
+
+      await waitFor(() => {
+        expect(signals).toHaveLength(1);
+      });
+
+      rerender({ search: 'ph' });
+      await waitFor(() => {
+        expect(signals).toHaveLength(2);
+      });
+
+      rerender({ search: 'pho' });
+      await waitFor(() => {
+        expect(signals).toHaveLength(3);
+      });
+
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(true);
+      expect(signals[2].aborted).toBe(false);
+    });
+
+    it('should abort the previous page request when the page changes', async () => {
+      const signals = mockPendingRequests();
+
+      const { rerender } = renderHook(
+        ({ page }) => useProducts({ page, search: '' }),
+        { initialProps: { page: 1 } }
+      );
+
+      await waitFor(() => {
+        expect(signals).toHaveLength(1);
+      });
+
+      rerender({ page: 2 });
+
+      await waitFor(() => {
+        expect(signals).toHaveLength(2);
+      });
+
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    it('should abort the request on unmount', async () => {
+      const signals = mockPendingRequests();
+
+      const { unmount } = renderHook(() => useProducts({ page: 1, search: '' }));
+
+      await waitFor(() => {
+        expect(signals).toHaveLength(1);
+      });
+
+      unmount();
+
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    it('should not abort a request that is still wanted', async () => {
+      const signals = mockPendingRequests();
+      const queryClient = createTestQueryClient();
+
+      renderHook(() => useProducts({ page: 1, search: 'phone' }), { queryClient });
+      const second = renderHook(() => useProducts({ page: 1, search: 'phone' }), { queryClient });
+
+      await waitFor(() => {
+        expect(signals).toHaveLength(1);
+      });
+
+      // Another component still shows this query, so its request carries on
+      second.unmount();
+
+      expect(signals[0].aborted).toBe(false);
+    });
+  });
+
+  describe('category filtering', () => {
+    it('should pass the category to the API', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result } = renderHook(() => useProducts({ page: 1, search: '', category: 'smartphones' }));
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '', { category: 'smartphones' }, expect.any(AbortSignal));
+    });
+
+    it('should refetch when category changes', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result, rerender } = renderHook(
+        ({ category }) => useProducts({ page: 1, search: '', category }),
+        {
+          initialProps: { category: undefined as string | undefined },
+        }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      rerender({ category: 'laptops' });
+
+      await waitFor(() => {
+        expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(1, '', { category: 'laptops' }, expect.any(AbortSignal));
+    });
+  });
+
+  describe('sorting', () => {
+    it('should pass the sort option to the API', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result } = renderHook(() => useProducts({ page: 1, search: '', sort: 'price-asc' }));
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '', { sort: 'price-asc' }, expect.any(AbortSignal));
+    });
+
+    it('should cache each sort order separately', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result, rerender } = renderHook(
+        ({ sort }) => useProducts({ page: 1, search: '', sort }),
+        {
+          initialProps: { sort: 'rating' as ProductSort },
+        }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      rerender({ sort: 'title' });
+
+      await waitFor(() => {
+        expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(1, '', { sort: 'title' }, expect.any(AbortSignal));
+    });
+  });
+
+  describe('price and rating filters', () => {
+    it('should pass the filters to the API', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const filters = { minPrice: 25, maxPrice: 100, minRating: 4 };
+      const { result } = renderHook(() => useProducts({ page: 1, search: '', filters }));
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '', { filters }, expect.any(AbortSignal));
+    });
+
+    it('should refetch when the filters change', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result, rerender } = renderHook(
+        ({ filters }) => useProducts({ page: 1, search: '', filters }),
+        {
+          initialProps: { filters: { minRating: 4 } as ProductFilters },
+        }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      rerender({ filters: { minRating: 3 } });
+
+      await waitFor(() => {
+        expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(1, '', { filters: { minRating: 3 } }, expect.any(AbortSignal));
+    });
+
+    it('should reuse the cache for equal filter objects', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result, rerender } = renderHook(
+        ({ filters }) => useProducts({ page: 1, search: '', filters }),
+        {
+          initialProps: { filters: { minPrice: 0, maxPrice: 25 } as ProductFilters },
+        }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      rerender({ filters: { minPrice: 0, maxPrice: 25 } });
+
+      expect(productsApi.getProducts).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('page size', () => {
+    it('should pass the page size to the API', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result } = renderHook(() => useProducts({ page: 2, search: '', pageSize: 24 }));
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenCalledWith(2, '', { pageSize: 24 }, expect.any(AbortSignal));
+    });
+
+    it('should refetch when the page size changes', async () => {
+      vi.mocked(productsApi.getProducts).mockResolvedValue(mockProductsResponse);
+
+      const { result, rerender } = renderHook(
+        ({ pageSize }) => useProducts({ page: 1, search: '', pageSize }),
+        { initialProps: { pageSize: 12 } }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      rerender({ pageSize: 48 });
+
+      await waitFor(() => {
+        expect(productsApi.getProducts).toHaveBeenCalledTimes(2);
+      });
+
+      expect(productsApi.getProducts).toHaveBeenLastCalledWith(1, '', { pageSize: 48 }, expect.any(AbortSignal));
     });
   });
 
@@ -284,7 +578,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '', {}, expect.any(AbortSignal));
     });
 
     it('should handle whitespace-only search string', async () => {
@@ -296,7 +590,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '   ');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, '   ', {}, expect.any(AbortSignal));
     });
 
     it('should handle zero page number', async () => {
@@ -308,7 +602,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(0, '');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(0, '', {}, expect.any(AbortSignal));
     });
 
     it('should handle negative page number', async () => {
@@ -320,7 +614,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(-1, '');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(-1, '', {}, expect.any(AbortSignal));
     });
 
     it('should handle very long search strings', async () => {
@@ -333,7 +627,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(1, longSearch);
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, longSearch, {}, expect.any(AbortSignal));
     });
 
     it('should handle special characters in search', async () => {
@@ -346,7 +640,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(1, specialSearch);
+      expect(productsApi.getProducts).toHaveBeenCalledWith(1, specialSearch, {}, expect.any(AbortSignal));
     });
 
     it('should handle empty products array response', async () => {
@@ -382,7 +676,7 @@ describe('useProducts', () => {
         expect(result.current.isSuccess).toBe(true);
       });
 
-      expect(productsApi.getProducts).toHaveBeenCalledWith(9999, '');
+      expect(productsApi.getProducts).toHaveBeenCalledWith(9999, '', {}, expect.any(AbortSignal));
       expect(result.current.data?.page).toBe(9999);
     });
   });
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, createTestQueryClient } from '../../test/test-utils';
+import { useProductsByIds } from '../useProductsByIds';
+import type { Product } from '../../types/product';
+
+vi.mock('../../api/productsApi', () => ({
+  productsApi: {
+    getProduct: vi.fn(),
+  },
+}));
+
+import { productsApi } from '../../api/productsApi';
+
+const makeProduct = (id: number): Product => ({
+  id,
+  title: `Product ${id}`,
+  description: '',
+  price: id * 10,
+  thumbnail: '',
+  rating: 4,
+  brand: 'Brand',
+  category: 'category',
+});
+
+describe('useProductsByIds', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should fetch every product in order', async () => {
+    vi.mocked(productsApi.getProduct).mockImplementation(async (id) => makeProduct(id));
+
+    const { result } = renderHook(() => useProductsByIds([2, 1]));
+
+    await waitFor(() => {
+      expect(result.current.every((query) => query.isSuccess)).toBe(true);
+    });
+
+    expect(result.current.map((query) => query.data?.id)).toEqual([2, 1]);
+  });
+
+  it('should share cache entries with useProduct', () => {
+    const queryClient = createTestQueryClient();
+    queryClient.setQueryData(['product', 3], makeProduct(3));
+
+    const { result } = renderHook(() => useProductsByIds([3]), { queryClient });
+
+    expect(result.current[0].data).toEqual(makeProduct(3));
+    expect(productsApi.getProduct).not.toHaveBeenCalled();
+  });
+
+  it('should report failures per product', async () => {
+    vi.mocked(productsApi.getProduct).mockImplementation(async (id) => {
+      if (id === 9) {
+        throw new Error('Not found');
+      }
+      return makeProduct(id);
+    });
+
+    const { result } = renderHook(() => useProductsByIds([1, 9]));
+
+    await waitFor(() => {
+      expect(result.current[1].isError).toBe(true);
+    });
+
+    expect(result.current[0].data).toEqual(makeProduct(1));
+  });
+});
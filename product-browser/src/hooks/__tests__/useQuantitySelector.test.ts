@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useQuantitySelector } from '../useQuantitySelector';
+
+describe('useQuantitySelector', () => {
+  describe('initial state', () => {
+    it('should default to a quantity of 1', () => {
+      const { result } = renderHook(() => useQuantitySelector());
+
+      expect(result.current.quantity).toBe(1);
+      expect(result.current.inputValue).toBe('1');
+      expect(result.current.isValid).toBe(true);
+      expect(result.current.error).toBe(null);
+    });
+
+    it('should start at the minimum order quantity', () => {
+      const { result } = renderHook(() => useQuantitySelector({ min: 5, max: 20 }));
+
+      expect(result.current.quantity).toBe(5);
+    });
+
+    it('should treat a minimum below 1 as 1', () => {
+      const { result } = renderHook(() => useQuantitySelector({ min: 0 }));
+
+      expect(result.current.quantity).toBe(1);
+    });
+  });
+
+  describe('stepping', () => {
+    it('should increment up to the maximum', () => {
+      const { result } = renderHook(() => useQuantitySelector({ max: 2 }));
+
+      act(() => {
+        result.current.increment();
+      });
+      act(() => {
+        result.current.increment();
+      });
+
+      expect(result.current.quantity).toBe(2);
+    });
+
+    it('should decrement down to the minimum', () => {
+      const { result } = renderHook(() => useQuantitySelector({ min: 2, max: 10 }));
+
+      act(() => {
+        result.current.increment();
+      });
+      act(() => {
+        result.current.decrement();
+      });
+      act(() => {
+        result.current.decrement();
+      });
+
+      expect(result.current.quantity).toBe(2);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject non-numeric input', () => {
+      const { result } = renderHook(() => useQuantitySelector());
+
+      act(() => {
+        result.current.setInputValue('abc');
+      });
+
+      expect(result.current.isValid).toBe(false);
+      expect(result.current.error).toBe('Enter a whole number');
+    });
+
+    it('should reject fractional input', () => {
+      const { result } = renderHook(() => useQuantitySelector());
+
+      act(() => {
+        result.current.setInputValue('1.5');
+      });
+
+      expect(result.current.error).toBe('Enter a whole number');
+    });
+
+    it('should report quantities below the minimum order', () => {
+      const { result } = renderHook(() => useQuantitySelector({ min: 3 }));
+
+      act(() => {
+        result.current.setInputValue('2');
+      });
+
+      expect(result.current.error).toBe('Minimum order quantity is 3');
+      expect(result.current.quantity).toBe(3);
+    });
+
+    it('should report quantities above available stock', () => {
+      const { result } = renderHook(() => useQuantitySelector({ max: 4 }));
+
+      act(() => {
+        result.current.setInputValue('9');
+      });
+
+      expect(result.current.error).toBe('Only 4 available');
+      expect(result.current.quantity).toBe(4);
+    });
+
+    it('should report when no stock remains', () => {
+      const { result } = renderHook(() => useQuantitySelector({ max: 0 }));
+
+      expect(result.current.isValid).toBe(false);
+      expect(result.current.error).toBe('No more stock available');
+    });
+
+    it('should report when stock cannot satisfy the minimum order', () => {
+      const { result } = renderHook(() => useQuantitySelector({ min: 5, max: 3 }));
+
+      expect(result.current.error).toBe('Minimum order of 5 exceeds the 3 available');
+    });
+
+    it('should start from the new minimum when it changes', () => {
+      // The detail views render with the default bounds until the product loads
+      const { result, rerender } = renderHook(
+        ({ min }) => useQuantitySelector({ min }),
+        { initialProps: { min: 1 } }
+      );
+
+      expect(result.current.inputValue).toBe('1');
+
+      rerender({ min: 24 });
+
+      expect(result.current.inputValue).toBe('24');
+      expect(result.current.quantity).toBe(24);
+      expect(result.current.isValid).toBe(true);
+    });
+
+    it('should start over when the maximum changes', () => {
+      const { result, rerender } = renderHook(
+        ({ max }) => useQuantitySelector({ max }),
+        { initialProps: { max: 10 } }
+      );
+
+      act(() => {
+        result.current.setInputValue('6');
+      });
+      expect(result.current.isValid).toBe(true);
+
+      rerender({ max: 5 });
+
+      expect(result.current.inputValue).toBe('1');
+      expect(result.current.isValid).toBe(true);
+    });
+
+    it('should keep typed input while the bounds stay the same', () => {
+      const { result, rerender } = renderHook(
+        ({ min, max }) => useQuantitySelector({ min, max }),
+        { initialProps: { min: 2, max: 10 } }
+      );
+
+      act(() => {
+        result.current.setInputValue('6');
+      });
+      rerender({ min: 2, max: 10 });
+
+      expect(result.current.inputValue).toBe('6');
+    });
+  });
+
+  describe('commit and reset', () => {
+    it('should snap out-of-range input back into bounds on commit', () => {
+      const { result } = renderHook(() => useQuantitySelector({ min: 2, max: 5 }));
+
+      act(() => {
+        result.current.setInputValue('50');
+      });
+      act(() => {
+        result.current.commit();
+      });
+
+      expect(result.current.inputValue).toBe('5');
+      expect(result.current.isValid).toBe(true);
+    });
+
+    it('should reset to the minimum', () => {
+      const { result } = renderHook(() => useQuantitySelector({ min: 2, max: 5 }));
+
+      act(() => {
+        result.current.setInputValue('4');
+      });
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.quantity).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRecentlyViewed } from '../useRecentlyViewed';
+import { RecentlyViewedProvider } from '../../context/RecentlyViewedProvider';
+import { RECENTLY_VIEWED_LIMIT } from '../../constants/recentlyViewed';
+import { STORAGE_KEYS } from '../../constants/storage';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <RecentlyViewedProvider>{children}</RecentlyViewedProvider>
+);
+
+describe('useRecentlyViewed', () => {
+  it('should start with an empty history', () => {
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    expect(result.current.productIds).toEqual([]);
+  });
+
+  it('should throw when used outside a RecentlyViewedProvider', () => {
+    expect(() => renderHook(() => useRecentlyViewed())).toThrow(
+      'useRecentlyViewed must be used within a RecentlyViewedProvider'
+    );
+  });
+
+  it('should list the most recent view first', () => {
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    act(() => {
+      result.current.recordView(1);
+      result.current.recordView(2);
+      result.current.recordView(3);
+    });
+
+    expect(result.current.productIds).toEqual([3, 2, 1]);
+  });
+
+  it('should move a product viewed again to the front without duplicating it', () => {
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    act(() => {
+      result.current.recordView(1);
+      result.current.recordView(2);
+      result.current.recordView(1);
+    });
+
+    expect(result.current.productIds).toEqual([1, 2]);
+  });
+
+  it('should keep the history when the latest product is viewed again', () => {
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    act(() => {
+      result.current.recordView(1);
+    });
+    const history = result.current.productIds;
+
+    act(() => {
+      result.current.recordView(1);
+    });
+
+    expect(result.current.productIds).toBe(history);
+  });
+
+  it('should drop the oldest views beyond the limit', () => {
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    act(() => {
+      for (let id = 1; id <= RECENTLY_VIEWED_LIMIT + 2; id++) {
+        result.current.recordView(id);
+      }
+    });
+
+    expect(result.current.productIds).toHaveLength(RECENTLY_VIEWED_LIMIT);
+    expect(result.current.productIds[0]).toBe(RECENTLY_VIEWED_LIMIT + 2);
+    expect(result.current.productIds).not.toContain(1);
+    expect(result.current.productIds).not.toContain(2);
+  });
+
+  it('should persist the history to localStorage', () => {
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    act(() => {
+      result.current.recordView(4);
+      result.current.recordView(9);
+    });
+
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEYS.RECENTLY_VIEWED)!)).toEqual([9, 4]);
+
+    const { result: restored } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    expect(restored.current.productIds).toEqual([9, 4]);
+  });
+
+  it('should ignore malformed stored data', () => {
+    window.localStorage.setItem(STORAGE_KEYS.RECENTLY_VIEWED, JSON.stringify({ id: 1 }));
+
+    const { result } = renderHook(() => useRecentlyViewed(), { wrapper });
+
+    expect(result.current.productIds).toEqual([]);
+  });
+});
@@ -289,6 +289,51 @@ describe('useScrollLock', () => {
     });
   });
 
+  describe('nested locks', () => {
+    it('should stay locked until the outer lock is released', () => {
+      Object.defineProperty(window, 'scrollY', {
+        value: 400,
+        writable: true,
+        configurable: true,
+      });
+
+      const outer = renderHook(
+        ({ isLocked }) => useScrollLock(isLocked),
+        { initialProps: { isLocked: true } }
+      );
+      const inner = renderHook(
+        ({ isLocked }) => useScrollLock(isLocked),
+        { initialProps: { isLocked: false } }
+      );
+
+      // Mounting unlocked must not release the outer lock
+      expect(document.body.style.position).toBe('fixed');
+
+      inner.rerender({ isLocked: true });
+      expect(document.body.style.top).toBe('-400px');
+
+      inner.rerender({ isLocked: false });
+      expect(document.body.classList.contains('drawer-open')).toBe(true);
+      expect(document.body.style.position).toBe('fixed');
+      expect(scrollToSpy).not.toHaveBeenCalled();
+
+      outer.rerender({ isLocked: false });
+      expect(document.body.classList.contains('drawer-open')).toBe(false);
+      expect(document.body.style.position).toBe('');
+      expect(scrollToSpy).toHaveBeenCalledWith(0, 400);
+    });
+
+    it('should stay locked when an inner lock unmounts', () => {
+      renderHook(() => useScrollLock(true));
+      const inner = renderHook(() => useScrollLock(true));
+
+      inner.unmount();
+
+      expect(document.body.classList.contains('drawer-open')).toBe(true);
+      expect(document.body.style.position).toBe('fixed');
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle very large scroll positions', () => {
       const largeScroll = 999999;
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { MemoryRouter, useNavigate } from 'react-router-dom';
+import { useScrollRestoration } from '../useScrollRestoration';
+
+const scrollWindowTo = (y: number) => {
+  Object.defineProperty(window, 'scrollY', { value: y, configurable: true });
+  window.dispatchEvent(new Event('scroll'));
+};
+
+// Positions are kept per history key for the whole session, so give every
+// test its own entry instead of MemoryRouter's shared "default" key
+let entryCount = 0;
+
+const renderWithRouter = (initialIsReady: boolean = true) => {
+  const initialEntry = { pathname: '/', key: `entry-${++entryCount}` };
+
+  return renderHook(
+    ({ isReady }) => {
+      useScrollRestoration(isReady);
+      return useNavigate();
+    },
+    {
+      initialProps: { isReady: initialIsReady },
+      wrapper: ({ children }: { children: React.ReactNode }) => (
+        <MemoryRouter initialEntries={[initialEntry]}>{children}</MemoryRouter>
+      ),
+    }
+  );
+};
+
+describe('useScrollRestoration', () => {
+  beforeEach(() => {
+    vi.mocked(window.scrollTo).mockClear();
+    scrollWindowTo(0);
+  });
+
+  it('should not scroll on a first visit', () => {
+    renderWithRouter();
+
+    expect(window.scrollTo).not.toHaveBeenCalled();
+  });
+
+  it('should restore the position when navigating back', () => {
+    const { result } = renderWithRouter();
+
+    scrollWindowTo(1200);
+    act(() => {
+      result.current('/?page=2');
+    });
+    scrollWindowTo(0);
+    act(() => {
+      result.current(-1);
+    });
+
+    expect(window.scrollTo).toHaveBeenLastCalledWith(0, 1200);
+  });
+
+  it('should wait until the content is ready', () => {
+    const { result, rerender } = renderWithRouter();
+
+    scrollWindowTo(800);
+    act(() => {
+      result.current('/?page=2');
+    });
+    rerender({ isReady: false });
+    act(() => {
+      result.current(-1);
+    });
+    expect(window.scrollTo).not.toHaveBeenCalled();
+
+    rerender({ isReady: true });
+    expect(window.scrollTo).toHaveBeenCalledWith(0, 800);
+  });
+
+  it('should only restore once per visit', () => {
+    const { result, rerender } = renderWithRouter();
+
+    scrollWindowTo(500);
+    act(() => {
+      result.current('/?page=2');
+    });
+    act(() => {
+      result.current(-1);
+    });
+    rerender({ isReady: false });
+    rerender({ isReady: true });
+
+    expect(window.scrollTo).toHaveBeenCalledTimes(1);
+  });
+});
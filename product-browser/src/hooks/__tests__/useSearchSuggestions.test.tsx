@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '../../test/test-utils';
+import { useSearchSuggestions } from '../useSearchSuggestions';
+import type { ProductSuggestion } from '../../types/product';
+
+vi.mock('../../api/productsApi', () => ({
+  productsApi: {
+    getSuggestions: vi.fn(),
+  },
+}));
+
+import { productsApi } from '../../api/productsApi';
+
+const phone: ProductSuggestion = {
+  id: 1,
+  title: 'iPhone 9',
+  brand: 'Apple',
+  category: 'smartphones',
+  thumbnail: 'https://example.com/1.jpg',
+};
+
+describe('useSearchSuggestions', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should not look anything up for short queries', async () => {
+    const { result } = renderHook(() => useSearchSuggestions('i'));
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(productsApi.getSuggestions).not.toHaveBeenCalled();
+    expect(result.current.suggestions).toEqual([]);
+  });
+
+  it('should debounce the lookup and build suggestions', async () => {
+    vi.mocked(productsApi.getSuggestions).mockResolvedValue([phone]);
+
+    const { result, rerender } = renderHook(
+      ({ query }) => useSearchSuggestions(query),
+      { initialProps: { query: '' } }
+    );
+    rerender({ query: 'ip' });
+    rerender({ query: 'iph' });
+    rerender({ query: 'ipho' });
+
+    await waitFor(() => {
+      expect(result.current.suggestions).toHaveLength(1);
+    });
+
+    // Only the settled query is looked up
+    expect(productsApi.getSuggestions).toHaveBeenCalledTimes(1);
+    expect(productsApi.getSuggestions).toHaveBeenCalledWith('ipho', expect.any(AbortSignal));
+    expect(result.current.suggestions[0]).toEqual({ type: 'product', product: phone });
+  });
+
+  it('should cancel a lookup superseded by a newer query', async () => {
+    const signals: AbortSignal[] = [];
+    vi.mocked(productsApi.getSuggestions).mockImplementation((query, signal) => {
+      signals.push(signal!);
+      // The first lookup never answers on its own
+      return query === 'phone'
+        ? new Promise<ProductSuggestion[]>(() => {})
+        : Promise.resolve([phone]);
+    });
+
+    const { result, rerender } = renderHook(
+      ({ query }) => useSearchSuggestions(query),
+      { initialProps: { query: 'phone' } }
+    );
+
+    await waitFor(() => {
+      expect(signals).toHaveLength(1);
+    });
+
+    rerender({ query: 'iphone' });
+
+    await waitFor(() => {
+      expect(result.current.suggestions).toHaveLength(1);
+    });
+
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('should not offer the previous term\'s suggestions while the next lookup runs', async () => {
+    vi.mocked(productsApi.getSuggestions).mockImplementation((query) =>
+      query === 'ipho' ? Promise.resolve([phone]) : new Promise<ProductSuggestion[]>(() => {})
+    );
+
+    const { result, rerender } = renderHook(
+      ({ query }) => useSearchSuggestions(query),
+      { initialProps: { query: 'ipho' } }
+    );
+
+    await waitFor(() => {
+      expect(result.current.suggestions).toHaveLength(1);
+    });
+
+    rerender({ query: 'laptop' });
+
+    await waitFor(() => {
+      expect(productsApi.getSuggestions).toHaveBeenCalledWith('laptop', expect.any(AbortSignal));
+    });
+    expect(result.current.suggestions).toEqual([]);
+  });
+
+  it('should report fetching while a lookup is in flight', async () => {
+    vi.mocked(productsApi.getSuggestions).mockReturnValue(new Promise(() => {}));
+
+    const { result } = renderHook(() => useSearchSuggestions('phone'));
+
+    await waitFor(() => {
+      expect(result.current.isFetching).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useWishlist } from '../useWishlist';
+import { WishlistProvider } from '../../context/WishlistProvider';
+import { STORAGE_KEYS } from '../../constants/storage';
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <WishlistProvider>{children}</WishlistProvider>
+);
+
+describe('useWishlist', () => {
+  it('should start empty', () => {
+    const { result } = renderHook(() => useWishlist(), { wrapper });
+
+    expect(result.current.productIds).toEqual([]);
+    expect(result.current.isSaved(1)).toBe(false);
+  });
+
+  it('should throw when used outside a WishlistProvider', () => {
+    expect(() => renderHook(() => useWishlist())).toThrow(
+      'useWishlist must be used within a WishlistProvider'
+    );
+  });
+
+  it('should save and unsave a product with toggleItem', () => {
+    const { result } = renderHook(() => useWishlist(), { wrapper });
+
+    act(() => {
+      result.current.toggleItem(5);
+    });
+
+    expect(result.current.isSaved(5)).toBe(true);
+
+    act(() => {
+      result.current.toggleItem(5);
+    });
+
+    expect(result.current.isSaved(5)).toBe(false);
+    expect(result.current.productIds).toEqual([]);
+  });
+
+  it('should list the most recently saved product first', () => {
+    const { result } = renderHook(() => useWishlist(), { wrapper });
+
+    act(() => {
+      result.current.toggleItem(1);
+    });
+    act(() => {
+      result.current.toggleItem(2);
+    });
+
+    expect(result.current.productIds).toEqual([2, 1]);
+  });
+
+  it('should remove a product', () => {
+    const { result } = renderHook(() => useWishlist(), { wrapper });
+
+    act(() => {
+      result.current.toggleItem(1);
+      result.current.toggleItem(2);
+    });
+    act(() => {
+      result.current.removeItem(1);
+    });
+
+    expect(result.current.productIds).toEqual([2]);
+  });
+
+  it('should persist saved ids to localStorage', () => {
+    const { result } = renderHook(() => useWishlist(), { wrapper });
+
+    act(() => {
+      result.current.toggleItem(7);
+    });
+
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEYS.WISHLIST)!)).toEqual([7]);
+
+    const { result: restored } = renderHook(() => useWishlist(), { wrapper });
+
+    expect(restored.current.productIds).toEqual([7]);
+  });
+
+  it('should ignore malformed stored data', () => {
+    window.localStorage.setItem(STORAGE_KEYS.WISHLIST, JSON.stringify(['7', null]));
+
+    const { result } = renderHook(() => useWishlist(), { wrapper });
+
+    expect(result.current.productIds).toEqual([]);
+  });
+});
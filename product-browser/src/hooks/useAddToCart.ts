@@ -0,0 +1,59 @@
+import { useCallback } from 'react';
+import { useCart } from './useCart';
+import { useQuantitySelector } from './useQuantitySelector';
+import { getLineTotal } from '../utils/pricing';
+import type { Product } from '../types/product';
+
+/**
+ * Quantity and Add to Cart state shared by the quick view drawer and the
+ * detail page. The minimum order only applies to the first units added, and
+ * the maximum is whatever stock is not already in the cart.
+ * @param product - The product shown, if any
+ * @param isPlaceholderData - True while showing list data, which may lack
+ * stock and minimum order, so buying waits for the full product
+ */
+export const useAddToCart = (
+  product: Product | undefined,
+  isPlaceholderData: boolean = false
+): {
+  quantitySelector: ReturnType<typeof useQuantitySelector>;
+  minQuantity: number;
+  maxQuantity: number | undefined;
+  isAtStockLimit: boolean;
+  canChooseQuantity: boolean;
+  canAddToCart: boolean;
+  lineTotal: number;
+  addToCart: () => void;
+} => {
+  const { addItem, getQuantity } = useCart();
+  const quantityInCart = product ? getQuantity(product.id) : 0;
+  const isAtStockLimit = !!product?.stock && quantityInCart >= product.stock;
+  const minQuantity = quantityInCart > 0 ? 1 : product?.minimumOrderQuantity ?? 1;
+  const maxQuantity = product?.stock !== undefined ? product.stock - quantityInCart : undefined;
+  const quantitySelector = useQuantitySelector({ min: minQuantity, max: maxQuantity });
+  const lineTotal = product
+    ? getLineTotal(product.price, quantitySelector.quantity, product.discountPercentage)
+    : 0;
+
+  const canChooseQuantity = !!product && product.stock !== 0 && !isAtStockLimit;
+  const canAddToCart = canChooseQuantity && !isPlaceholderData && quantitySelector.isValid;
+
+  const { quantity, reset } = quantitySelector;
+  const addToCart = useCallback(() => {
+    if (product && canAddToCart) {
+      addItem(product, quantity);
+      reset();
+    }
+  }, [addItem, canAddToCart, product, quantity, reset]);
+
+  return {
+    quantitySelector,
+    minQuantity,
+    maxQuantity,
+    isAtStockLimit,
+    canChooseQuantity,
+    canAddToCart,
+    lineTotal,
+    addToCart,
+  };
+};
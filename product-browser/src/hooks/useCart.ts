@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { CartContext } from '../context/CartContext';
+import type { CartContextValue } from '../context/CartContext';
+
+/**
+ * Access the shopping cart; must be used inside a CartProvider
+ */
+export const useCart = (): CartContextValue => {
+  const context = useContext(CartContext);
+
+  if (!context) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+
+  return context;
+};
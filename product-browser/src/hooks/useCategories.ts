@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { useDataSource } from './useDataSource';
+import type { Category } from '../types/product';
+
+export const useCategories = (): UseQueryResult<Category[]> => {
+  const dataSource = useDataSource();
+
+  return useQuery({
+    queryKey: ['categories'],
+    queryFn: () => dataSource.getCategories(),
+    staleTime: 1000 * 60 * 60, // Categories rarely change; keep them for an hour
+  });
+};
@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { CompareContext } from '../context/CompareContext';
+import type { CompareContextValue } from '../context/CompareContext';
+
+/**
+ * Access the comparison tray; must be used inside a CompareProvider
+ */
+export const useCompare = (): CompareContextValue => {
+  const context = useContext(CompareContext);
+
+  if (!context) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { CurrencyContext } from '../context/CurrencyContext';
+import type { CurrencyContextValue } from '../context/CurrencyContext';
+
+/**
+ * Access the display currency; must be used inside a CurrencyProvider
+ */
+export const useCurrency = (): CurrencyContextValue => {
+  const context = useContext(CurrencyContext);
+
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+
+  return context;
+};
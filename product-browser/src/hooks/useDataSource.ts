@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { DataSourceContext } from '../context/DataSourceContext';
+import type { ProductDataSource } from '../api/dataSource';
+
+/**
+ * The product data source supplied by DataSourceProvider, or the configured
+ * one when there is no provider
+ */
+export const useDataSource = (): ProductDataSource => {
+  return useContext(DataSourceContext);
+};
@@ -1,12 +1,19 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RefObject } from 'react';
 import { ANIMATION_DURATIONS } from '../constants/animations';
+import { useFocusTrap } from './useFocusTrap';
 
 interface UseDrawerOptions {
   onClose?: () => void;
+  // Called once the closing transition has finished after isOpen turns false
+  onExited?: () => void;
 }
 
 /**
- * Manages drawer open/close state with animation timing
+ * Manages drawer open/close state with animation timing, and makes the
+ * element behind `dialogRef` behave as a modal dialog: focus moves into it
+ * on open, Tab cycles inside it, Escape closes it and focus returns to
+ * whatever opened it (usually a ProductCard) on close
  */
 export const useDrawer = (
   isOpen: boolean,
@@ -14,19 +21,37 @@ export const useDrawer = (
 ): {
   isDrawerOpen: boolean;
   handleClose: () => void;
+  handleKeyDown: (e: React.KeyboardEvent) => void;
+  dialogRef: RefObject<HTMLDivElement | null>;
   transitionDuration: number;
 } => {
-  const { onClose } = options;
+  const { onClose, onExited } = options;
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const hasOpenedRef = useRef(false);
+  const onExitedRef = useRef(onExited);
+  const { dialogRef, handleKeyDown: trapFocus } = useFocusTrap(isOpen);
 
-  // Trigger opening animation after mount
+  useEffect(() => {
+    onExitedRef.current = onExited;
+  }, [onExited]);
+
+  // Trigger opening animation after mount, and closing animation when isOpen turns false
   useEffect(() => {
     if (isOpen) {
+      hasOpenedRef.current = true;
       const timer = requestAnimationFrame(() => {
         setIsDrawerOpen(true);
       });
       return () => cancelAnimationFrame(timer);
     }
+
+    if (hasOpenedRef.current) {
+      setIsDrawerOpen(false);
+      const timer = setTimeout(() => {
+        onExitedRef.current?.();
+      }, ANIMATION_DURATIONS.DRAWER_TRANSITION);
+      return () => clearTimeout(timer);
+    }
   }, [isOpen]);
 
   const handleClose = useCallback(() => {
@@ -34,9 +59,21 @@ export const useDrawer = (
     onClose?.();
   }, [onClose]);
 
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      handleClose();
+      return;
+    }
+
+    trapFocus(e);
+  }, [handleClose, trapFocus]);
+
   return {
     isDrawerOpen,
     handleClose,
+    handleKeyDown,
+    dialogRef,
     transitionDuration: ANIMATION_DURATIONS.DRAWER_TRANSITION
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+
+// Elements Tab can land on inside the dialog
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(', ');
+
+/**
+ * Keeps keyboard focus inside the element behind `dialogRef` while `isActive`:
+ * focus moves into it on activation, Tab cycles inside it and focus returns
+ * to whatever held it before once it deactivates or unmounts.
+ * Attach `handleKeyDown` to the dialog element.
+ * @param isActive - Whether the dialog is open
+ */
+export const useFocusTrap = (isActive: boolean): {
+  dialogRef: RefObject<HTMLDivElement | null>;
+  handleKeyDown: (e: React.KeyboardEvent) => void;
+} => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Take focus while active and hand it back as soon as that ends
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    dialogRef.current?.focus({ preventScroll: true });
+
+    return () => {
+      if (previouslyFocused?.isConnected) {
+        previouslyFocused.focus({ preventScroll: true });
+      }
+    };
+  }, [isActive]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    const dialog = dialogRef.current;
+    // Keys from portals (the image lightbox) bubble here too; leave those alone
+    if (e.key !== 'Tab' || !dialog || !dialog.contains(e.target as Node)) {
+      return;
+    }
+
+    const focusable = Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) {
+      e.preventDefault();
+      dialog.focus();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+
+    if (e.shiftKey && (active === first || active === dialog)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }, []);
+
+  return { dialogRef, handleKeyDown };
+};
@@ -0,0 +1,94 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * State for an image gallery: the selected image, the lightbox and its zoom.
+ * Navigation wraps around at either end.
+ * @param imageCount - Number of images in the gallery
+ */
+export const useImageGallery = (imageCount: number): {
+  activeIndex: number;
+  isLightboxOpen: boolean;
+  isZoomed: boolean;
+  showImage: (index: number) => void;
+  showNext: () => void;
+  showPrevious: () => void;
+  openLightbox: () => void;
+  closeLightbox: () => void;
+  toggleZoom: () => void;
+  handleKeyDown: (e: React.KeyboardEvent) => void;
+} => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const [isZoomed, setIsZoomed] = useState(false);
+
+  // Zoom applies to a single image, so any navigation resets it
+  const showImage = useCallback((index: number) => {
+    if (imageCount === 0) {
+      return;
+    }
+    setActiveIndex(((index % imageCount) + imageCount) % imageCount);
+    setIsZoomed(false);
+  }, [imageCount]);
+
+  const showNext = useCallback(() => {
+    showImage(activeIndex + 1);
+  }, [activeIndex, showImage]);
+
+  const showPrevious = useCallback(() => {
+    showImage(activeIndex - 1);
+  }, [activeIndex, showImage]);
+
+  const openLightbox = useCallback(() => {
+    setIsLightboxOpen(true);
+  }, []);
+
+  const closeLightbox = useCallback(() => {
+    setIsLightboxOpen(false);
+    setIsZoomed(false);
+  }, []);
+
+  const toggleZoom = useCallback(() => {
+    setIsZoomed((prev) => !prev);
+  }, []);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowRight':
+        showNext();
+        break;
+      case 'ArrowLeft':
+        showPrevious();
+        break;
+      case 'Home':
+        showImage(0);
+        break;
+      case 'End':
+        showImage(imageCount - 1);
+        break;
+      case 'Escape':
+        if (!isLightboxOpen) {
+          return;
+        }
+        // Keep Escape from also closing the drawer underneath
+        e.stopPropagation();
+        closeLightbox();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }, [closeLightbox, imageCount, isLightboxOpen, showImage, showNext, showPrevious]);
+
+  return {
+    activeIndex,
+    isLightboxOpen,
+    isZoomed,
+    showImage,
+    showNext,
+    showPrevious,
+    openLightbox,
+    closeLightbox,
+    toggleZoom,
+    handleKeyDown,
+  };
+};
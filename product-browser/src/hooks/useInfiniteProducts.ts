@@ -0,0 +1,38 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { InfiniteData, UseInfiniteQueryResult } from '@tanstack/react-query';
+import { useDataSource } from './useDataSource';
+import type { ProductFilters, ProductSort, ProductsResponse } from '../types/product';
+
+interface UseInfiniteProductsParams {
+  search: string;
+  category?: string;
+  sort?: ProductSort;
+  filters?: ProductFilters;
+  enabled?: boolean;
+}
+
+/**
+ * Fetches the product list one page at a time for infinite scrolling.
+ * Each loaded page is kept, so the list can be rendered again in full
+ * when the user comes back to it.
+ */
+export const useInfiniteProducts = ({
+  search,
+  category,
+  sort,
+  filters,
+  enabled = true
+}: UseInfiniteProductsParams): UseInfiniteQueryResult<InfiniteData<ProductsResponse, number>> => {
+  const dataSource = useDataSource();
+
+  return useInfiniteQuery({
+    queryKey: ['products', 'infinite', search, category, sort, filters],
+    queryFn: ({ pageParam, signal }) =>
+      dataSource.getProducts(pageParam, search, { category, sort, filters }, signal),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => lastPage.page < lastPage.totalPages ? lastPage.page + 1 : undefined,
+    enabled,
+    staleTime: 1000 * 60 * 5, // Consider data fresh for 5 minutes
+    retry: 2,
+  });
+};
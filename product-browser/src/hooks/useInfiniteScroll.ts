@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface UseInfiniteScrollOptions {
+  enabled?: boolean;
+  // Start loading before the sentinel is actually on screen
+  rootMargin?: string;
+}
+
+/**
+ * Calls onLoadMore whenever a sentinel element scrolls into view
+ * @returns A ref callback to attach to the sentinel element
+ */
+export const useInfiniteScroll = (
+  onLoadMore: () => void,
+  { enabled = true, rootMargin = '400px' }: UseInfiniteScrollOptions = {}
+): (element: Element | null) => void => {
+  const [sentinel, setSentinel] = useState<Element | null>(null);
+  // Keep the latest callback without recreating the observer on every render
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    if (!enabled || !sentinel) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onLoadMoreRef.current();
+      }
+    }, { rootMargin });
+
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [enabled, sentinel, rootMargin]);
+
+  return setSentinel;
+};
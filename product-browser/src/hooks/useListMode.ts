@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { STORAGE_KEYS } from '../constants/storage';
+import { readStorage, writeStorage } from '../utils/storage';
+import type { ProductListMode } from '../types/product';
+
+const isListMode = (value: unknown): value is ProductListMode => {
+  return value === 'pages' || value === 'infinite';
+};
+
+/**
+ * The user's preferred way of loading more products, remembered in localStorage
+ */
+export const useListMode = (): {
+  listMode: ProductListMode;
+  setListMode: (mode: ProductListMode) => void;
+} => {
+  const [listMode, setListMode] = useState<ProductListMode>(() => {
+    const stored = readStorage<unknown>(STORAGE_KEYS.LIST_MODE, 'pages');
+    return isListMode(stored) ? stored : 'pages';
+  });
+
+  useEffect(() => {
+    writeStorage(STORAGE_KEYS.LIST_MODE, listMode);
+  }, [listMode]);
+
+  return { listMode, setListMode };
+};
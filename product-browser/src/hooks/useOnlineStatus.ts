@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+const getSnapshot = () => navigator.onLine;
+
+// Assume a connection when rendering outside the browser
+const getServerSnapshot = () => true;
+
+/**
+ * Whether the browser reports a network connection, updated on online/offline events
+ */
+export const useOnlineStatus = (): boolean => {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+};
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDataSource } from './useDataSource';
+import { productsQueryOptions } from './useProducts';
+import type { ProductsQueryParams } from './useProducts';
+
+/**
+ * Prefetch the pages either side of the current one for the same results,
+ * so Next and Previous usually render from the cache
+ * @param totalPages - Leave undefined until the current page has loaded
+ */
+export const usePrefetchAdjacentPages = (
+  { page, search, category, sort, filters, pageSize }: ProductsQueryParams,
+  totalPages: number | undefined
+): void => {
+  const queryClient = useQueryClient();
+  const dataSource = useDataSource();
+
+  useEffect(() => {
+    if (totalPages === undefined) {
+      return;
+    }
+
+    // Next first: paging forward is far more common
+    [page + 1, page - 1]
+      .filter((adjacent) => adjacent >= 1 && adjacent <= totalPages)
+      .forEach((adjacent) => {
+        void queryClient.prefetchQuery(
+          productsQueryOptions(dataSource, { page: adjacent, search, category, sort, filters, pageSize })
+        );
+      });
+  }, [queryClient, dataSource, page, search, category, sort, filters, pageSize, totalPages]);
+};
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDataSource } from './useDataSource';
+import { productQueryOptions } from './useProduct';
+
+/**
+ * Returns a callback that warms the useProduct cache for a product, e.g. on
+ * hover, so opening it does not start from a spinner. Products that are
+ * already cached and fresh are not fetched again
+ */
+export const usePrefetchProduct = (): ((id: number) => void) => {
+  const queryClient = useQueryClient();
+  const dataSource = useDataSource();
+
+  return useCallback(
+    (id: number) => {
+      void queryClient.prefetchQuery(productQueryOptions(dataSource, id));
+    },
+    [queryClient, dataSource]
+  );
+};
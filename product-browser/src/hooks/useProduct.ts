@@ -1,13 +1,34 @@
-import { useQuery } from '@tanstack/react-query';
+import { queryOptions, useQuery } from '@tanstack/react-query';
 import type { UseQueryResult } from '@tanstack/react-query';
-import { productsApi } from '../api/productsApi';
+import { useDataSource } from './useDataSource';
+import type { ProductDataSource } from '../api/dataSource';
 import type { Product } from '../types/product';
 
-export const useProduct = (id: number | null): UseQueryResult<Product> => {
-  return useQuery({
+interface UseProductOptions {
+  // Shown while the product loads, e.g. a copy found in a cached list
+  placeholderData?: () => Product | undefined;
+}
+
+/**
+ * Query options for one product, shared by useProduct, useProductsByIds and
+ * prefetching so they all read and fill the same cache entry
+ */
+export const productQueryOptions = (dataSource: ProductDataSource, id: number) =>
+  queryOptions({
     queryKey: ['product', id],
-    queryFn: () => productsApi.getProduct(id!),
-    enabled: !!id,
+    queryFn: ({ signal }) => dataSource.getProduct(id, signal),
     staleTime: 1000 * 60, // Cache for 1 minute (matches backend cache)
   });
-};
\ No newline at end of file
+
+export const useProduct = (
+  id: number | null,
+  { placeholderData }: UseProductOptions = {}
+): UseQueryResult<Product> => {
+  const dataSource = useDataSource();
+
+  return useQuery({
+    ...productQueryOptions(dataSource, id!),
+    enabled: !!id,
+    placeholderData,
+  });
+};
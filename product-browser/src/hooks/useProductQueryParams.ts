@@ -0,0 +1,181 @@
+import { useCallback, useMemo } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { SORT_OPTIONS } from '../constants/sorting';
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from '../constants/pagination';
+import { getPageForPageSize } from '../utils/pagination';
+import { parseProductId } from '../utils/productId';
+import type { ProductFilters, ProductSort } from '../types/product';
+
+interface ParamUpdates {
+  q?: string;
+  page?: number;
+  pageSize?: number;
+  category?: string;
+  sort?: ProductSort | '';
+  product?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+}
+
+interface DrawerLocationState {
+  openedFromList?: boolean;
+}
+
+const parsePage = (value: string | null): number => {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+};
+
+const parsePageSize = (value: string | null): number => {
+  const pageSize = Number(value);
+  return (PAGE_SIZE_OPTIONS as readonly number[]).includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE;
+};
+
+const parseAmount = (value: string | null): number | undefined => {
+  const amount = Number(value);
+  return value && Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+const parseSort = (value: string | null): ProductSort | undefined => {
+  return value && Object.hasOwn(SORT_OPTIONS, value) ? (value as ProductSort) : undefined;
+};
+
+/**
+ * Keeps the product list query (?q=&page=&pageSize=&category=&sort=) and the price and
+ * rating filters (?minPrice=&maxPrice=&minRating=) in the URL so it
+ * survives reloads, can be shared, and follows browser back/forward.
+ * Default values are left out of the URL to keep links short.
+ * The quick-view drawer is bound to ?product= in the same way.
+ */
+export const useProductQueryParams = (): {
+  search: string;
+  page: number;
+  pageSize: number;
+  category: string;
+  sort: ProductSort | undefined;
+  filters: ProductFilters;
+  productId: number | null;
+  setSearch: (search: string) => void;
+  setPage: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+  setCategory: (category: string) => void;
+  setSort: (sort: ProductSort | '') => void;
+  setFilters: (filters: ProductFilters) => void;
+  openProduct: (productId: number) => void;
+  closeProduct: () => void;
+} => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const search = searchParams.get('q') ?? '';
+  const page = parsePage(searchParams.get('page'));
+  const pageSize = parsePageSize(searchParams.get('pageSize'));
+  const category = searchParams.get('category') ?? '';
+  const sort = parseSort(searchParams.get('sort'));
+  const productId = parseProductId(searchParams.get('product'));
+
+  const minPrice = parseAmount(searchParams.get('minPrice'));
+  const maxPrice = parseAmount(searchParams.get('maxPrice'));
+  const minRating = parseAmount(searchParams.get('minRating'));
+  const filters = useMemo<ProductFilters>(() => {
+    const next: ProductFilters = {};
+    if (minPrice !== undefined) next.minPrice = minPrice;
+    if (maxPrice !== undefined) next.maxPrice = maxPrice;
+    if (minRating !== undefined) next.minRating = minRating;
+    return next;
+  }, [minPrice, maxPrice, minRating]);
+
+  const updateParams = useCallback((
+    updates: ParamUpdates,
+    replace: boolean = false,
+    state?: DrawerLocationState
+  ) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+
+      Object.entries(updates).forEach(([key, value]) => {
+        // Omit defaults so "/?page=1" and "/" are the same URL
+        if (
+          value === undefined ||
+          value === '' ||
+          (key === 'page' && value === 1) ||
+          (key === 'pageSize' && value === DEFAULT_PAGE_SIZE)
+        ) {
+          next.delete(key);
+        } else {
+          next.set(key, String(value));
+        }
+      });
+
+      return next;
+    }, { replace, state });
+  }, [setSearchParams]);
+
+  // Typing replaces the history entry so Back doesn't step through every keystroke
+  const setSearch = useCallback((value: string) => {
+    if (value !== search) {
+      updateParams({ q: value, page: 1 }, true);
+    }
+  }, [search, updateParams]);
+
+  const setPage = useCallback((value: number) => {
+    updateParams({ page: value });
+  }, [updateParams]);
+
+  // Stay on the page that contains the first product currently shown
+  const setPageSize = useCallback((value: number) => {
+    updateParams({ pageSize: value, page: getPageForPageSize(page, pageSize, value) });
+  }, [page, pageSize, updateParams]);
+
+  const setCategory = useCallback((value: string) => {
+    updateParams({ category: value, page: 1 });
+  }, [updateParams]);
+
+  const setSort = useCallback((value: ProductSort | '') => {
+    updateParams({ sort: value, page: 1 });
+  }, [updateParams]);
+
+  // Filters are replaced as a set so clearing one field drops it from the URL
+  const setFilters = useCallback((value: ProductFilters) => {
+    updateParams({
+      minPrice: value.minPrice,
+      maxPrice: value.maxPrice,
+      minRating: value.minRating,
+      page: 1,
+    });
+  }, [updateParams]);
+
+  const openProduct = useCallback((value: number) => {
+    updateParams({ product: value }, false, { openedFromList: true });
+  }, [updateParams]);
+
+  // Step back through history when we pushed the entry ourselves, so Back
+  // and the close button agree; a pasted deep link has nothing to go back to
+  const closeProduct = useCallback(() => {
+    if ((location.state as DrawerLocationState | null)?.openedFromList) {
+      navigate(-1);
+    } else {
+      updateParams({ product: undefined }, true);
+    }
+  }, [location.state, navigate, updateParams]);
+
+  return {
+    search,
+    page,
+    pageSize,
+    category,
+    sort,
+    filters,
+    productId,
+    setSearch,
+    setPage,
+    setPageSize,
+    setCategory,
+    setSort,
+    setFilters,
+    openProduct,
+    closeProduct,
+  };
+};
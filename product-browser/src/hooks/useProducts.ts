@@ -1,18 +1,56 @@
-import { useQuery } from '@tanstack/react-query';
-import type { UseQueryResult } from '@tanstack/react-query';
-import { productsApi } from '../api/productsApi';
-import type { ProductsResponse } from '../types/product';
+import { hashKey, queryOptions, useQuery } from '@tanstack/react-query';
+import type { QueryKey, UseQueryResult } from '@tanstack/react-query';
+import { useDataSource } from './useDataSource';
+import type { ProductDataSource } from '../api/dataSource';
+import type { ProductFilters, ProductSort, ProductsResponse } from '../types/product';
 
-interface UseProductsParams {
+export interface ProductsQueryParams {
   page: number;
   search: string;
+  category?: string;
+  sort?: ProductSort;
+  filters?: ProductFilters;
+  pageSize?: number;
 }
 
-export const useProducts = ({ page, search }: UseProductsParams): UseQueryResult<ProductsResponse> => {
-  return useQuery({
-    queryKey: ['products', page, search],
-    queryFn: () => productsApi.getProducts(page, search),
+interface UseProductsParams extends ProductsQueryParams {
+  enabled?: boolean;
+}
+
+/**
+ * Query options for one page of results, shared by useProducts and the
+ * adjacent-page prefetch so both use the same cache entry
+ */
+export const productsQueryOptions = (
+  dataSource: ProductDataSource,
+  { page, search, category, sort, filters, pageSize }: ProductsQueryParams
+) =>
+  queryOptions({
+    queryKey: ['products', page, search, category, sort, filters, pageSize],
+    // Passing the signal lets React Query abort requests for superseded keys
+    queryFn: ({ signal }) =>
+      dataSource.getProducts(page, search, { category, sort, filters, pageSize }, signal),
     staleTime: 1000 * 60 * 5, // Consider data fresh for 5 minutes
+  });
+
+// Everything but the page number, so two keys can be compared for "same results, other page"
+const withoutPage = ([scope, , ...rest]: QueryKey) => hashKey([scope, ...rest]);
+
+export const useProducts = ({
+  enabled = true,
+  ...params
+}: UseProductsParams): UseQueryResult<ProductsResponse> => {
+  const dataSource = useDataSource();
+  const options = productsQueryOptions(dataSource, params);
+  const currentResults = withoutPage(options.queryKey);
+
+  return useQuery({
+    ...options,
+    enabled,
     retry: 2,
+    // Keep the previous page on screen while the next one of the same results
+    // loads; a new search, category, sort or filter starts from the spinner
+    placeholderData: (previousData, previousQuery) =>
+      previousQuery && withoutPage(previousQuery.queryKey) === currentResults ? previousData : undefined,
   });
-};
\ No newline at end of file
+};
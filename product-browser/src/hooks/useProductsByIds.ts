@@ -0,0 +1,16 @@
+import { useQueries } from '@tanstack/react-query';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { useDataSource } from './useDataSource';
+import { productQueryOptions } from './useProduct';
+import type { Product } from '../types/product';
+
+/**
+ * Fetches several products at once, sharing the cache entries of useProduct
+ */
+export const useProductsByIds = (ids: number[]): UseQueryResult<Product>[] => {
+  const dataSource = useDataSource();
+
+  return useQueries({
+    queries: ids.map((id) => productQueryOptions(dataSource, id)),
+  });
+};
@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react';
+
+interface UseQuantitySelectorOptions {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Manages a quantity input bounded by a minimum order and available stock.
+ * The raw input is kept so users can type freely; validation is derived from it.
+ * @param options.min - Smallest orderable quantity (default: 1)
+ * @param options.max - Largest orderable quantity (default: unlimited)
+ */
+export const useQuantitySelector = (
+  options: UseQuantitySelectorOptions = {}
+): {
+  quantity: number;
+  inputValue: string;
+  error: string | null;
+  isValid: boolean;
+  setInputValue: (value: string) => void;
+  increment: () => void;
+  decrement: () => void;
+  commit: () => void;
+  reset: () => void;
+} => {
+  const min = Math.max(1, options.min ?? 1);
+  const max = options.max ?? Number.POSITIVE_INFINITY;
+  const [inputValue, setInputValue] = useState(String(min));
+
+  // Bounds arrive with the product (and change when it does), so start over
+  // from the new minimum rather than validating a value typed for other bounds
+  const [bounds, setBounds] = useState({ min, max });
+  if (bounds.min !== min || bounds.max !== max) {
+    setBounds({ min, max });
+    setInputValue(String(min));
+  }
+
+  const parsed = Number(inputValue);
+  const isWholeNumber = inputValue.trim() !== '' && Number.isInteger(parsed);
+  const clamped = Math.min(Math.max(isWholeNumber ? parsed : min, min), max);
+
+  let error: string | null = null;
+  if (max < min) {
+    error = max <= 0
+      ? 'No more stock available'
+      : `Minimum order of ${min} exceeds the ${max} available`;
+  } else if (!isWholeNumber) {
+    error = 'Enter a whole number';
+  } else if (parsed < min) {
+    error = `Minimum order quantity is ${min}`;
+  } else if (parsed > max) {
+    error = `Only ${max} available`;
+  }
+
+  const increment = useCallback(() => {
+    setInputValue(String(Math.min(clamped + 1, max)));
+  }, [clamped, max]);
+
+  const decrement = useCallback(() => {
+    setInputValue(String(Math.max(clamped - 1, min)));
+  }, [clamped, min]);
+
+  // Snap an out-of-range entry back into bounds (e.g. on blur)
+  const commit = useCallback(() => {
+    if (max >= min) {
+      setInputValue(String(clamped));
+    }
+  }, [clamped, min, max]);
+
+  const reset = useCallback(() => {
+    setInputValue(String(min));
+  }, [min]);
+
+  return {
+    quantity: clamped,
+    inputValue,
+    error,
+    isValid: error === null,
+    setInputValue,
+    increment,
+    decrement,
+    commit,
+    reset,
+  };
+};
@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { RecentlyViewedContext } from '../context/RecentlyViewedContext';
+import type { RecentlyViewedContextValue } from '../context/RecentlyViewedContext';
+
+/**
+ * Access the recently viewed history; must be used inside a RecentlyViewedProvider
+ */
+export const useRecentlyViewed = (): RecentlyViewedContextValue => {
+  const context = useContext(RecentlyViewedContext);
+
+  if (!context) {
+    throw new Error('useRecentlyViewed must be used within a RecentlyViewedProvider');
+  }
+
+  return context;
+};
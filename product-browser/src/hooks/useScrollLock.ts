@@ -1,44 +1,53 @@
 import { useEffect, useRef } from 'react';
 
+// Locks can nest (the image lightbox opens on top of the drawer), so only the
+// first lock touches the body and only the last unlock releases it
+let activeLocks = 0;
+let lockedScrollPosition = 0;
+
+const lockBody = () => {
+  if (activeLocks === 0) {
+    // Save current scroll position
+    lockedScrollPosition = window.scrollY;
+
+    // Add class to lock scroll
+    document.body.classList.add('drawer-open');
+    document.body.style.position = 'fixed';
+    document.body.style.top = `-${lockedScrollPosition}px`;
+    document.body.style.width = '100%';
+  }
+  activeLocks += 1;
+};
+
+const unlockBody = () => {
+  activeLocks = Math.max(0, activeLocks - 1);
+  if (activeLocks === 0) {
+    document.body.classList.remove('drawer-open');
+    document.body.style.position = '';
+    document.body.style.top = '';
+    document.body.style.width = '';
+  }
+};
+
 /**
  * Custom hook to manage body scroll lock when modals/drawers are open
  * @param isLocked - Boolean indicating whether scroll should be locked
  */
 export const useScrollLock = (isLocked: boolean): void => {
-  const scrollPositionRef = useRef<number>(0);
+  const hasLockedRef = useRef(false);
 
   useEffect(() => {
     if (isLocked) {
-      // Save current scroll position
-      scrollPositionRef.current = window.scrollY;
-      
-      // Add class to lock scroll
-      document.body.classList.add('drawer-open');
-      document.body.style.position = 'fixed';
-      document.body.style.top = `-${scrollPositionRef.current}px`;
-      document.body.style.width = '100%';
-    } else {
-      // Remove scroll lock
-      document.body.classList.remove('drawer-open');
-      document.body.style.position = '';
-      document.body.style.top = '';
-      document.body.style.width = '';
-      
-      // Restore scroll position
-      if (scrollPositionRef.current) {
-        window.scrollTo(0, scrollPositionRef.current);
-      }
+      hasLockedRef.current = true;
+      lockBody();
+
+      // Runs when unlocking and on unmount
+      return unlockBody;
     }
 
-    // Cleanup function only for unmount
-    return () => {
-      // Only cleanup if component unmounts while locked
-      if (isLocked) {
-        document.body.classList.remove('drawer-open');
-        document.body.style.position = '';
-        document.body.style.top = '';
-        document.body.style.width = '';
-      }
-    };
+    // Restore scroll position after unlocking, unless an outer lock still holds
+    if (hasLockedRef.current && activeLocks === 0 && lockedScrollPosition) {
+      window.scrollTo(0, lockedScrollPosition);
+    }
   }, [isLocked]);
-};
\ No newline at end of file
+};
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+
+// Scroll offsets per history entry, kept for the lifetime of the page
+const scrollPositions = new Map<string, number>();
+
+/**
+ * Restores the window scroll position when the user comes back to a history
+ * entry, e.g. pressing Back from /product/:id to a long infinite list.
+ * @param isReady - Whether the content is rendered and tall enough to scroll to
+ */
+export const useScrollRestoration = (isReady: boolean): void => {
+  const { key } = useLocation();
+  const restoredKeyRef = useRef<string | null>(null);
+
+  // Remember where the user is on the current history entry
+  useEffect(() => {
+    const handleScroll = () => {
+      scrollPositions.set(key, window.scrollY);
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!isReady || restoredKeyRef.current === key) {
+      return;
+    }
+    restoredKeyRef.current = key;
+
+    const position = scrollPositions.get(key);
+    if (position !== undefined) {
+      window.scrollTo(0, position);
+    }
+  }, [isReady, key]);
+};
@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useDataSource } from './useDataSource';
+import { useDebounce } from './useDebounce';
+import { MIN_SUGGESTION_LENGTH, SUGGESTION_DEBOUNCE_MS } from '../constants/search';
+import { buildSuggestions } from '../utils/suggestions';
+import type { SearchSuggestion } from '../types/product';
+
+/**
+ * Debounced product, brand and category suggestions for a partial search.
+ * Each lookup gets the query's abort signal, so React Query cancels a request
+ * as soon as a newer query replaces it
+ */
+export const useSearchSuggestions = (query: string): {
+  suggestions: SearchSuggestion[];
+  isFetching: boolean;
+} => {
+  const dataSource = useDataSource();
+  const debouncedQuery = useDebounce(query.trim(), SUGGESTION_DEBOUNCE_MS);
+  const isEnabled = debouncedQuery.length >= MIN_SUGGESTION_LENGTH;
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['suggestions', debouncedQuery],
+    queryFn: ({ signal }) => dataSource.getSuggestions(debouncedQuery, signal),
+    enabled: isEnabled,
+    staleTime: 1000 * 60,
+    // No placeholder: brands and categories from the previous term would be
+    // offered under the new one, so the list waits for matching results
+  });
+
+  const suggestions = useMemo(
+    () => (isEnabled && data ? buildSuggestions(debouncedQuery, data) : []),
+    [isEnabled, data, debouncedQuery]
+  );
+
+  return { suggestions, isFetching: isEnabled && isFetching };
+};
@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { WishlistContext } from '../context/WishlistContext';
+import type { WishlistContextValue } from '../context/WishlistContext';
+
+/**
+ * Access the saved products; must be used inside a WishlistProvider
+ */
+export const useWishlist = (): WishlistContextValue => {
+  const context = useContext(WishlistContext);
+
+  if (!context) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+
+  return context;
+};
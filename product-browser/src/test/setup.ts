@@ -5,6 +5,7 @@ import { afterEach, vi } from 'vitest';
 // Cleanup after each test
 afterEach(() => {
   cleanup();
+  window.localStorage.clear();
 });
 
 // Mock window.matchMedia
@@ -3,6 +3,13 @@ import type { ReactElement } from 'react';
 import { render, renderHook as renderHookOriginal } from '@testing-library/react';
 import type { RenderOptions, RenderHookOptions } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { DataSourceProvider } from '../context/DataSourceProvider';
+import { CartProvider } from '../context/CartProvider';
+import { CurrencyProvider } from '../context/CurrencyProvider';
+import { WishlistProvider } from '../context/WishlistProvider';
+import { RecentlyViewedProvider } from '../context/RecentlyViewedProvider';
+import { CompareProvider } from '../context/CompareProvider';
+import type { ProductDataSource } from '../api/dataSource';
 
 // Create a custom render function that wraps components with providers
 export function createTestQueryClient(options?: {
@@ -22,40 +29,63 @@ export function createTestQueryClient(options?: {
 interface AllTheProvidersProps {
   children: React.ReactNode;
   queryClient?: QueryClient;
+  // e.g. createFixtureDataSource(...); defaults to the (usually mocked) productsApi
+  dataSource?: ProductDataSource;
 }
 
-export function AllTheProviders({ children, queryClient }: AllTheProvidersProps) {
+export function AllTheProviders({ children, queryClient, dataSource }: AllTheProvidersProps) {
   const client = queryClient || createTestQueryClient();
   
   return (
     <QueryClientProvider client={client}>
-      {children}
+      <DataSourceProvider dataSource={dataSource}>
+        <CurrencyProvider>
+          <CartProvider>
+            <WishlistProvider>
+              <RecentlyViewedProvider>
+                <CompareProvider>
+                  {children}
+                </CompareProvider>
+              </RecentlyViewedProvider>
+            </WishlistProvider>
+          </CartProvider>
+        </CurrencyProvider>
+      </DataSourceProvider>
     </QueryClientProvider>
   );
 }
 
 // Create a wrapper factory that can use a shared QueryClient
-export function createWrapper(queryClient?: QueryClient) {
+export function createWrapper(queryClient?: QueryClient, dataSource?: ProductDataSource) {
   return function Wrapper({ children }: { children: React.ReactNode }) {
-    return <AllTheProviders queryClient={queryClient}>{children}</AllTheProviders>;
+    return (
+      <AllTheProviders queryClient={queryClient} dataSource={dataSource}>
+        {children}
+      </AllTheProviders>
+    );
   };
 }
 
+interface ProviderOptions {
+  queryClient?: QueryClient;
+  dataSource?: ProductDataSource;
+}
+
 export function renderWithProviders(
   ui: ReactElement,
-  options?: Omit<RenderOptions, 'wrapper'> & { queryClient?: QueryClient }
+  options?: Omit<RenderOptions, 'wrapper'> & ProviderOptions
 ) {
-  const { queryClient, ...restOptions } = options || {};
-  return render(ui, { wrapper: createWrapper(queryClient), ...restOptions });
+  const { queryClient, dataSource, ...restOptions } = options || {};
+  return render(ui, { wrapper: createWrapper(queryClient, dataSource), ...restOptions });
 }
 
 // Custom renderHook that wraps with providers
 export function renderHookWithProviders<TProps, TResult>(
   hook: (props: TProps) => TResult,
-  options?: Omit<RenderHookOptions<TProps>, 'wrapper'> & { queryClient?: QueryClient }
+  options?: Omit<RenderHookOptions<TProps>, 'wrapper'> & ProviderOptions
 ) {
-  const { queryClient, ...restOptions } = options || {};
-  return renderHookOriginal(hook, { wrapper: createWrapper(queryClient), ...restOptions });
+  const { queryClient, dataSource, ...restOptions } = options || {};
+  return renderHookOriginal(hook, { wrapper: createWrapper(queryClient, dataSource), ...restOptions });
 }
 
 // Re-export everything from React Testing Library except render and renderHook
@@ -0,0 +1,9 @@
+export interface CartItem {
+  productId: number;
+  title: string;
+  price: number;
+  thumbnail: string;
+  quantity: number;
+  stock?: number;
+  discountPercentage?: number;
+}
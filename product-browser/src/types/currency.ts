@@ -0,0 +1 @@
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CAD';
@@ -1,3 +1,5 @@
+export type AvailabilityStatus = 'In Stock' | 'Low Stock' | 'Out of Stock';
+
 export interface Product {
   id: number;
   title: string;
@@ -10,6 +12,33 @@ export interface Product {
   images?: string[];
   stock?: number;
   discountPercentage?: number;
+  minimumOrderQuantity?: number;
+  availabilityStatus?: AvailabilityStatus;
+}
+
+export interface ProductFilters {
+  minPrice?: number;
+  // Exclusive upper bound, so adjacent price ranges never overlap
+  maxPrice?: number;
+  minRating?: number;
+}
+
+export interface PriceFacet {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface RatingFacet {
+  minRating: number;
+  count: number;
+}
+
+// Result counts per filter option; each facet ignores its own filter so
+// the counts show what selecting that option would return
+export interface ProductFacets {
+  price: PriceFacet[];
+  rating: RatingFacet[];
 }
 
 export interface ProductsResponse {
@@ -17,4 +46,29 @@ export interface ProductsResponse {
   total: number;
   page: number;
   totalPages: number;
-}
\ No newline at end of file
+  facets?: ProductFacets;
+}
+
+export interface Category {
+  slug: string;
+  name: string;
+}
+
+export type ProductSort = 'price-asc' | 'price-desc' | 'rating' | 'title' | 'discount';
+
+// How the product grid loads more results: numbered pages or infinite scroll
+export type ProductListMode = 'pages' | 'infinite';
+
+export interface ProductQueryOptions {
+  category?: string;
+  sort?: ProductSort;
+  filters?: ProductFilters;
+  pageSize?: number;
+}
+// The few fields the search suggestions need
+export type ProductSuggestion = Pick<Product, 'id' | 'title' | 'brand' | 'category' | 'thumbnail'>;
+
+export type SearchSuggestion =
+  | { type: 'product'; product: ProductSuggestion }
+  | { type: 'brand'; value: string }
+  | { type: 'category'; value: string };
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getBestIndexes, parseCompareIds } from '../compare';
+
+describe('parseCompareIds', () => {
+  it('should read a comma separated list of ids', () => {
+    expect(parseCompareIds('1,2,3')).toEqual([1, 2, 3]);
+    expect(parseCompareIds(' 4 , 5 ')).toEqual([4, 5]);
+  });
+
+  it('should drop invalid and duplicate ids', () => {
+    expect(parseCompareIds('1,abc,-2,1.5,,1,7')).toEqual([1, 7]);
+  });
+
+  it('should only accept plain digits, like product routes', () => {
+    expect(parseCompareIds('1e3,1.0,0x10,+5,9')).toEqual([9]);
+  });
+
+  it('should keep at most four ids', () => {
+    expect(parseCompareIds('1,2,3,4,5,6')).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should return an empty list when the param is missing', () => {
+    expect(parseCompareIds(null)).toEqual([]);
+  });
+});
+
+describe('getBestIndexes', () => {
+  it('should find the lowest or highest value', () => {
+    expect(getBestIndexes([30, 10, 20], 'min')).toEqual([1]);
+    expect(getBestIndexes([3.5, 4.8, 4.1], 'max')).toEqual([1]);
+  });
+
+  it('should highlight every product sharing the best value', () => {
+    expect(getBestIndexes([10, 5, 5], 'min')).toEqual([1, 2]);
+  });
+
+  it('should ignore unknown values', () => {
+    expect(getBestIndexes([undefined, 12, 40], 'max')).toEqual([2]);
+  });
+
+  it('should not highlight when the values do not differ', () => {
+    expect(getBestIndexes([7, 7, 7], 'min')).toEqual([]);
+    expect(getBestIndexes([7, undefined], 'min')).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ApiError } from '../../api/apiError';
+import { getErrorContent } from '../errorMessages';
+
+describe('getErrorContent', () => {
+  it('should send missing products back instead of offering a retry', () => {
+    expect(getErrorContent(new ApiError('notFound', 'Not found', { status: 404 }), 'product'))
+      .toMatchObject({ title: 'Product not found', action: 'back' });
+  });
+
+  it('should offer a retry for transient failures', () => {
+    for (const kind of ['network', 'timeout', 'rateLimited'] as const) {
+      expect(getErrorContent(new ApiError(kind, 'Failed'))).toMatchObject({
+        action: 'retry',
+        tone: 'warning'
+      });
+    }
+    expect(getErrorContent(new ApiError('server', 'Failed', { status: 500 })))
+      .toMatchObject({ action: 'retry', tone: 'error' });
+  });
+
+  describe('network errors', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should not blame the connection while the browser is online', () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+
+      expect(getErrorContent(new ApiError('network', 'Network Error'))).toMatchObject({
+        title: "Can't reach the server",
+        message: "We couldn't connect to the server to load products. Try again in a moment."
+      });
+    });
+
+    it('should say the user is offline when the browser is', () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      expect(getErrorContent(new ApiError('network', 'Network Error'), 'product')).toMatchObject({
+        title: 'You appear to be offline',
+        message: "We couldn't reach the server to load this product. Check your connection and try again."
+      });
+    });
+  });
+
+  it('should mention how long to wait when rate limited', () => {
+    expect(getErrorContent(new ApiError('rateLimited', 'Slow down', { retryAfter: 1 })).message)
+      .toBe('Please wait 1 second before trying again.');
+    expect(getErrorContent(new ApiError('rateLimited', 'Slow down', { retryAfter: 20 })).message)
+      .toBe('Please wait 20 seconds before trying again.');
+  });
+
+  it('should explain responses that failed validation', () => {
+    expect(getErrorContent(new ApiError('invalidResponse', 'Invalid'), 'product')).toMatchObject({
+      title: 'Unexpected response',
+      message: 'The server sent this product in a format we could not read.',
+      action: 'retry'
+    });
+  });
+
+  it('should name what failed to load in the heading', () => {
+    expect(getErrorContent(new Error('Boom'), 'product').title).toBe('Error loading product');
+    expect(getErrorContent(new Error('Boom')).title).toBe('Error loading products');
+  });
+
+  it('should fall back to the error message for unclassified errors', () => {
+    expect(getErrorContent(new ApiError('unknown', 'Bad request', { status: 400 })).message)
+      .toBe('Bad request');
+    expect(getErrorContent('nope').message).toBe('An unexpected error occurred');
+  });
+});
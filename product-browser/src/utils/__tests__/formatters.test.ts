@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { convertPrice, convertToBasePrice, formatPrice } from '../formatters';
+
+describe('formatPrice', () => {
+  it('should format catalog prices in US dollars by default', () => {
+    expect(formatPrice(1234.5, undefined, { locale: 'en-US' })).toBe('$1,234.50');
+  });
+
+  it('should convert with the static exchange rates', () => {
+    expect(formatPrice(10, 'EUR', { locale: 'en-US' })).toBe('€9.20');
+    expect(formatPrice(10, 'GBP', { locale: 'en-US' })).toBe('£7.90');
+  });
+
+  it('should use the minor units of the currency', () => {
+    expect(formatPrice(10, 'JPY', { locale: 'en-US' })).toBe('¥1,495');
+  });
+
+  it('should follow the locale', () => {
+    expect(formatPrice(10, 'EUR', { locale: 'de-DE' })).toBe('9,20 €');
+  });
+
+  it('should drop the minor units when asked', () => {
+    expect(formatPrice(25, 'USD', { locale: 'en-US', wholeUnits: true })).toBe('$25');
+  });
+});
+
+describe('convertPrice', () => {
+  it('should leave US dollars unchanged', () => {
+    expect(convertPrice(19.99, 'USD')).toBe(19.99);
+  });
+
+  it('should round-trip through another currency to the cent', () => {
+    expect(convertToBasePrice(convertPrice(19.99, 'CAD'), 'CAD')).toBe(19.99);
+    expect(convertToBasePrice(100, 'EUR')).toBe(108.7);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getPageForPageSize, getPageItems } from '../pagination';
+
+describe('getPageItems', () => {
+  it('should list every page when there are few', () => {
+    expect(getPageItems(1, 1)).toEqual([1]);
+    expect(getPageItems(3, 7)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('should collapse the end near the first page', () => {
+    expect(getPageItems(1, 20)).toEqual([1, 2, 3, 4, 5, 'end-ellipsis', 20]);
+    expect(getPageItems(3, 20)).toEqual([1, 2, 3, 4, 5, 'end-ellipsis', 20]);
+  });
+
+  it('should collapse both sides in the middle', () => {
+    expect(getPageItems(10, 20)).toEqual([1, 'start-ellipsis', 9, 10, 11, 'end-ellipsis', 20]);
+  });
+
+  it('should collapse the start near the last page', () => {
+    expect(getPageItems(20, 20)).toEqual([1, 'start-ellipsis', 16, 17, 18, 19, 20]);
+    expect(getPageItems(18, 20)).toEqual([1, 'start-ellipsis', 16, 17, 18, 19, 20]);
+  });
+
+  it('should keep the same number of items while paging', () => {
+    const lengths = Array.from({ length: 20 }, (_, index) => getPageItems(index + 1, 20).length);
+
+    expect(new Set(lengths)).toEqual(new Set([7]));
+  });
+
+  it('should show more neighbours with a larger sibling count', () => {
+    expect(getPageItems(10, 20, 2)).toEqual([1, 'start-ellipsis', 8, 9, 10, 11, 12, 'end-ellipsis', 20]);
+  });
+
+  it('should return nothing when there are no pages', () => {
+    expect(getPageItems(1, 0)).toEqual([]);
+  });
+});
+
+describe('getPageForPageSize', () => {
+  it('should keep the first item of the current page in view', () => {
+    expect(getPageForPageSize(5, 12, 24)).toBe(3);
+    expect(getPageForPageSize(2, 48, 12)).toBe(5);
+    expect(getPageForPageSize(1, 12, 48)).toBe(1);
+  });
+});
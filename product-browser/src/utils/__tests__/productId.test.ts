@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { parseProductId } from '../productId';
+
+describe('parseProductId', () => {
+  it('should read positive integer ids', () => {
+    expect(parseProductId('1')).toBe(1);
+    expect(parseProductId('42')).toBe(42);
+  });
+
+  it('should reject anything that is not a plain positive integer', () => {
+    for (const value of ['abc', '12abc', '1e3', '0x10', '1.5', '-3', '0', ' 7', '']) {
+      expect(parseProductId(value)).toBe(null);
+    }
+  });
+
+  it('should reject missing values', () => {
+    expect(parseProductId(undefined)).toBe(null);
+    expect(parseProductId(null)).toBe(null);
+  });
+
+  it('should reject ids too large to represent exactly', () => {
+    expect(parseProductId('99999999999999999999')).toBe(null);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildSuggestions } from '../suggestions';
+import type { ProductSuggestion } from '../../types/product';
+
+const phone: ProductSuggestion = {
+  id: 1,
+  title: 'iPhone 9',
+  brand: 'Apple',
+  category: 'smartphones',
+  thumbnail: 'https://example.com/1.jpg',
+};
+const watch: ProductSuggestion = {
+  id: 2,
+  title: 'Apple Watch',
+  brand: 'Apple',
+  category: 'mens-watches',
+  thumbnail: 'https://example.com/2.jpg',
+};
+
+describe('buildSuggestions', () => {
+  it('should list the products first', () => {
+    const suggestions = buildSuggestions('phone', [phone]);
+
+    expect(suggestions[0]).toEqual({ type: 'product', product: phone });
+  });
+
+  it('should offer each matching brand once', () => {
+    const suggestions = buildSuggestions('apple', [phone, watch]);
+
+    expect(suggestions.filter((suggestion) => suggestion.type === 'brand')).toEqual([
+      { type: 'brand', value: 'Apple' },
+    ]);
+  });
+
+  it('should offer matching categories', () => {
+    const suggestions = buildSuggestions('Watch', [phone, watch]);
+
+    expect(suggestions).toContainEqual({ type: 'category', value: 'mens-watches' });
+    expect(suggestions).not.toContainEqual({ type: 'category', value: 'smartphones' });
+  });
+
+  it('should skip brands and categories that do not contain the query', () => {
+    const suggestions = buildSuggestions('iphone', [phone]);
+
+    expect(suggestions).toEqual([{ type: 'product', product: phone }]);
+  });
+
+  it('should ignore products without a brand', () => {
+    const suggestions = buildSuggestions('a', [{ ...phone, brand: '' }]);
+
+    expect(suggestions.some((suggestion) => suggestion.type === 'brand')).toBe(false);
+  });
+});
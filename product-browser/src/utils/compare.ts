@@ -0,0 +1,36 @@
+import { MAX_COMPARE_ITEMS } from '../constants/compare';
+import { parseProductId } from './productId';
+
+/**
+ * Read the `ids` param of the compare route, e.g. "1,2,3", dropping
+ * duplicates and anything that is not a product id
+ */
+export const parseCompareIds = (value: string | null): number[] => {
+  const ids = (value ?? '')
+    .split(',')
+    .map((part) => parseProductId(part.trim()))
+    .filter((id): id is number => id !== null);
+
+  return [...new Set(ids)].slice(0, MAX_COMPARE_ITEMS);
+};
+
+/**
+ * Indexes of the best value in a comparison row. Nothing is highlighted when
+ * fewer than two values are known or all of them are equal
+ */
+export const getBestIndexes = (
+  values: Array<number | undefined>,
+  best: 'min' | 'max'
+): number[] => {
+  const known = values.filter((value): value is number => value !== undefined);
+  if (known.length < 2) {
+    return [];
+  }
+
+  const target = best === 'min' ? Math.min(...known) : Math.max(...known);
+  if (known.every((value) => value === target)) {
+    return [];
+  }
+
+  return values.flatMap((value, index) => (value === target ? [index] : []));
+};
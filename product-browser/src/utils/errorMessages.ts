@@ -0,0 +1,100 @@
+import { isApiError } from '../api/apiError';
+
+export type ErrorSubject = 'products' | 'product';
+
+export interface ErrorContent {
+  title: string;
+  message: string;
+  // Retrying cannot fix a missing resource, so those send the user back instead
+  action: 'retry' | 'back';
+  // Transient problems are shown as a warning rather than an error
+  tone: 'error' | 'warning';
+}
+
+/**
+ * Heading, explanation and suggested action for a failed request
+ * @param error - Whatever the query rejected with
+ * @param subject - What was being loaded, used in the copy
+ */
+export const getErrorContent = (error: unknown, subject: ErrorSubject = 'products'): ErrorContent => {
+  const noun = subject === 'product' ? 'this product' : 'products';
+
+  if (!isApiError(error)) {
+    return {
+      title: subject === 'product' ? 'Error loading product' : 'Error loading products',
+      message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      action: 'retry',
+      tone: 'error'
+    };
+  }
+
+  switch (error.kind) {
+    case 'network':
+      // Also covers DNS and CORS failures and a server that is down, so only
+      // blame the connection when the browser agrees it is offline
+      return navigator.onLine
+        ? {
+            title: "Can't reach the server",
+            message: `We couldn't connect to the server to load ${noun}. Try again in a moment.`,
+            action: 'retry',
+            tone: 'warning'
+          }
+        : {
+            title: 'You appear to be offline',
+            message: `We couldn't reach the server to load ${noun}. Check your connection and try again.`,
+            action: 'retry',
+            tone: 'warning'
+          };
+    case 'timeout':
+      return {
+        title: 'The request timed out',
+        message: `The server took too long to send ${noun}. Try again in a moment.`,
+        action: 'retry',
+        tone: 'warning'
+      };
+    case 'notFound':
+      return subject === 'product'
+        ? {
+            title: 'Product not found',
+            message: 'This product does not exist or has been removed.',
+            action: 'back',
+            tone: 'error'
+          }
+        : {
+            title: 'Nothing here',
+            message: 'The products you were looking for could not be found.',
+            action: 'back',
+            tone: 'error'
+          };
+    case 'rateLimited':
+      return {
+        title: 'Too many requests',
+        message: error.retryAfter
+          ? `Please wait ${error.retryAfter} second${error.retryAfter === 1 ? '' : 's'} before trying again.`
+          : 'Please wait a moment before trying again.',
+        action: 'retry',
+        tone: 'warning'
+      };
+    case 'server':
+      return {
+        title: 'Something went wrong on our end',
+        message: `The server ran into a problem loading ${noun}. Try again shortly.`,
+        action: 'retry',
+        tone: 'error'
+      };
+    case 'invalidResponse':
+      return {
+        title: 'Unexpected response',
+        message: `The server sent ${noun} in a format we could not read.`,
+        action: 'retry',
+        tone: 'error'
+      };
+    default:
+      return {
+        title: subject === 'product' ? 'Error loading product' : 'Error loading products',
+        message: error.message,
+        action: 'retry',
+        tone: 'error'
+      };
+  }
+};
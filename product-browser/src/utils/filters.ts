@@ -0,0 +1,83 @@
+import { PRICE_RANGES, RATING_OPTIONS } from '../constants/filters';
+import { SORT_OPTIONS } from '../constants/sorting';
+import type { Product, ProductFacets, ProductFilters, ProductSort } from '../types/product';
+
+type FilterableProduct = Pick<Product, 'price' | 'rating'>;
+
+const matchesPrice = (product: FilterableProduct, { minPrice, maxPrice }: ProductFilters): boolean => {
+  return (minPrice === undefined || product.price >= minPrice)
+    && (maxPrice === undefined || product.price < maxPrice);
+};
+
+const matchesRating = (product: FilterableProduct, { minRating }: ProductFilters): boolean => {
+  return minRating === undefined || product.rating >= minRating;
+};
+
+/**
+ * Whether any price or rating filter is set
+ */
+export const hasActiveFilters = (filters: ProductFilters = {}): boolean => {
+  return filters.minPrice !== undefined
+    || filters.maxPrice !== undefined
+    || filters.minRating !== undefined;
+};
+
+/**
+ * Keep only the products matching every active filter
+ */
+export const applyFilters = <T extends FilterableProduct>(products: T[], filters: ProductFilters = {}): T[] => {
+  return products.filter((product) => matchesPrice(product, filters) && matchesRating(product, filters));
+};
+
+/**
+ * Count results per filter option. Price counts respect the rating filter and
+ * vice versa, so each count is what choosing that option would return.
+ */
+export const computeFacets = (products: FilterableProduct[], filters: ProductFilters = {}): ProductFacets => {
+  const withinRating = products.filter((product) => matchesRating(product, filters));
+  const withinPrice = products.filter((product) => matchesPrice(product, filters));
+
+  return {
+    price: PRICE_RANGES.map(({ min, max }) => ({
+      min,
+      max,
+      count: withinRating.filter((product) =>
+        matchesPrice(product, { minPrice: min, maxPrice: max ?? undefined })
+      ).length,
+    })),
+    rating: RATING_OPTIONS.map((minRating) => ({
+      minRating,
+      count: withinPrice.filter((product) => product.rating >= minRating).length,
+    })),
+  };
+};
+
+/**
+ * Whether a product's title, brand or description contains the search term,
+ * for sources that have to search locally
+ */
+export const matchesSearch = (product: Product, search: string): boolean => {
+  const term = search.trim().toLowerCase();
+  return [product.title, product.brand, product.description]
+    .some((field) => field?.toLowerCase().includes(term));
+};
+
+/**
+ * Sort a copy of the list the same way the APIs apply sortBy/order
+ */
+export const sortProducts = (products: Product[], sort?: ProductSort): Product[] => {
+  if (!sort) {
+    return products;
+  }
+  const { sortBy, order } = SORT_OPTIONS[sort];
+  const direction = order === 'asc' ? 1 : -1;
+
+  return [...products].sort((a, b) => {
+    const left = a[sortBy] ?? 0;
+    const right = b[sortBy] ?? 0;
+    if (typeof left === 'string' && typeof right === 'string') {
+      return left.localeCompare(right) * direction;
+    }
+    return (Number(left) - Number(right)) * direction;
+  });
+};
@@ -1,3 +1,6 @@
+import { BASE_CURRENCY, CURRENCIES } from '../constants/currency';
+import type { CurrencyCode } from '../types/currency';
+
 /**
  * Generate star rating display
  */
@@ -7,4 +10,40 @@ export const formatRating = (rating: number): { stars: string; value: string } =
   const value = rating.toFixed(1);
   
   return { stars, value };
-};
\ No newline at end of file
+};
+
+/**
+ * Convert a catalog (USD) amount into another currency
+ */
+export const convertPrice = (amount: number, currency: CurrencyCode): number => {
+  return amount * CURRENCIES[currency].rate;
+};
+
+/**
+ * Convert an amount in another currency back into catalog (USD), rounded to cents
+ */
+export const convertToBasePrice = (amount: number, currency: CurrencyCode): number => {
+  return Math.round((amount / CURRENCIES[currency].rate) * 100) / 100;
+};
+
+export interface FormatPriceOptions {
+  // Defaults to the browser locale
+  locale?: string;
+  // Drop the minor units, e.g. for filter range labels
+  wholeUnits?: boolean;
+}
+
+/**
+ * Format a catalog (USD) amount in the given currency, e.g. "$9.99" or "9,19 €"
+ */
+export const formatPrice = (
+  amount: number,
+  currency: CurrencyCode = BASE_CURRENCY,
+  { locale, wholeUnits = false }: FormatPriceOptions = {}
+): string => {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    ...(wholeUnits && { minimumFractionDigits: 0, maximumFractionDigits: 0 }),
+  }).format(convertPrice(amount, currency));
+};
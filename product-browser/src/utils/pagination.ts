@@ -0,0 +1,43 @@
+export type PageItem = number | 'start-ellipsis' | 'end-ellipsis';
+
+const range = (start: number, end: number): number[] => {
+  return Array.from({ length: end - start + 1 }, (_, index) => start + index);
+};
+
+/**
+ * Page numbers to show in the pagination bar: always the first and last page
+ * plus the current page and its neighbours, with ellipses for the gaps.
+ * The number of items stays the same while paging so the buttons don't jump.
+ * @param siblingCount - How many pages to show on each side of the current page
+ */
+export const getPageItems = (currentPage: number, totalPages: number, siblingCount: number = 1): PageItem[] => {
+  // first + last + current + siblings + two ellipses
+  const maxItems = siblingCount * 2 + 5;
+  if (totalPages <= maxItems) {
+    return range(1, totalPages);
+  }
+
+  const leftSibling = Math.max(currentPage - siblingCount, 1);
+  const rightSibling = Math.min(currentPage + siblingCount, totalPages);
+  const showStartEllipsis = leftSibling > 2;
+  const showEndEllipsis = rightSibling < totalPages - 1;
+  // Pages shown on the side that has no ellipsis
+  const edgeCount = siblingCount * 2 + 3;
+
+  if (!showStartEllipsis) {
+    return [...range(1, edgeCount), 'end-ellipsis', totalPages];
+  }
+
+  if (!showEndEllipsis) {
+    return [1, 'start-ellipsis', ...range(totalPages - edgeCount + 1, totalPages)];
+  }
+
+  return [1, 'start-ellipsis', ...range(leftSibling, rightSibling), 'end-ellipsis', totalPages];
+};
+
+/**
+ * The page containing the first item of the current page once the page size changes
+ */
+export const getPageForPageSize = (page: number, pageSize: number, nextPageSize: number): number => {
+  return Math.floor(((page - 1) * pageSize) / nextPageSize) + 1;
+};
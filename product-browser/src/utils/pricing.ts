@@ -0,0 +1,18 @@
+/**
+ * Round a monetary amount to two decimal places
+ */
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Apply a percentage discount to a unit price
+ */
+export const getDiscountedPrice = (price: number, discountPercentage: number = 0): number => {
+  return roundCurrency(price * (1 - discountPercentage / 100));
+};
+
+/**
+ * Total for a cart line after discount
+ */
+export const getLineTotal = (price: number, quantity: number, discountPercentage: number = 0): number => {
+  return roundCurrency(getDiscountedPrice(price, discountPercentage) * quantity);
+};
@@ -0,0 +1,23 @@
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import type { Product, ProductsResponse } from '../types/product';
+
+type CachedProductList = ProductsResponse | InfiniteData<ProductsResponse>;
+
+/**
+ * Look a product up in any cached product list (paginated or infinite)
+ */
+export const findCachedProduct = (queryClient: QueryClient, id: number): Product | undefined => {
+  const lists = queryClient.getQueriesData<CachedProductList>({ queryKey: ['products'] });
+
+  for (const [, data] of lists) {
+    const pages = data && 'pages' in data ? data.pages : data ? [data] : [];
+    for (const page of pages) {
+      const product = page.products.find((item) => item.id === id);
+      if (product) {
+        return product;
+      }
+    }
+  }
+
+  return undefined;
+};
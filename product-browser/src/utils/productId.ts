@@ -0,0 +1,11 @@
+/**
+ * Read a product id from a route or query param. Only plain positive
+ * integers count, so "12abc" or "1e3" never reach the API
+ */
+export const parseProductId = (value: string | null | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
@@ -0,0 +1,93 @@
+import type { PersistedClient, Persister } from '@tanstack/react-query-persist-client';
+import { PERSIST_THROTTLE_MS, QUERY_CACHE_DB_NAME, QUERY_CACHE_KEY } from '../constants/offline';
+
+const STORE_NAME = 'cache';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUERY_CACHE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Persistence is best effort, so without IndexedDB (private mode, tests) nothing is kept
+const noopPersister: Persister = {
+  persistClient: async () => undefined,
+  restoreClient: async () => undefined,
+  removeClient: async () => undefined
+};
+
+/**
+ * A React Query persister that stores the dehydrated cache in IndexedDB,
+ * which unlike localStorage has room for image-heavy product lists
+ */
+export const createIndexedDbPersister = (key: string = QUERY_CACHE_KEY): Persister => {
+  if (typeof indexedDB === 'undefined') {
+    return noopPersister;
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+  let pendingClient: PersistedClient | null = null;
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    database ??= openDatabase();
+    const db = await database;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  const flush = () => {
+    writeTimer = null;
+    const client = pendingClient;
+    pendingClient = null;
+    if (client) {
+      // A full disk or a blocked database must not break browsing
+      run('readwrite', (store) => store.put(client, key)).catch(() => undefined);
+    }
+  };
+
+  // The throttled write would be lost if the tab closed while it waited
+  const flushNow = () => {
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+    }
+    flush();
+  };
+  window.addEventListener('pagehide', flushNow);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      flushNow();
+    }
+  });
+
+  return {
+    persistClient: async (client) => {
+      pendingClient = client;
+      writeTimer ??= setTimeout(flush, PERSIST_THROTTLE_MS);
+    },
+    restoreClient: async () => {
+      try {
+        return await run<PersistedClient | undefined>('readonly', (store) => store.get(key));
+      } catch {
+        return undefined;
+      }
+    },
+    removeClient: async () => {
+      pendingClient = null;
+      await run('readwrite', (store) => store.delete(key)).catch(() => undefined);
+    }
+  };
+};
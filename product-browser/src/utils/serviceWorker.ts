@@ -0,0 +1,17 @@
+/**
+ * Register public/sw.js, which caches the app shell and product images for
+ * offline use. Skipped in development, where a cached shell would hide changes
+ */
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(() => {
+        // Offline support is optional; the app works the same without it
+      });
+  });
+};
@@ -0,0 +1,29 @@
+/**
+ * Read a JSON value from localStorage, falling back when missing or unreadable
+ */
+export const readStorage = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Write a JSON value to localStorage, ignoring quota and privacy-mode errors
+ */
+export const writeStorage = <T,>(key: string, value: T): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Persistence is best-effort; the in-memory state is still correct
+  }
+};
+
+/**
+ * Check a stored list of product ids (wishlist, history, comparison) before trusting it
+ */
+export const isProductIdList = (value: unknown): value is number[] => {
+  return Array.isArray(value) && value.every((id) => Number.isInteger(id) && id > 0);
+};
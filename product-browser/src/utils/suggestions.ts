@@ -0,0 +1,19 @@
+import type { ProductSuggestion, SearchSuggestion } from '../types/product';
+
+/**
+ * Turn matching products into product, brand and category suggestions.
+ * Brands and categories are only offered when they contain the query
+ */
+export const buildSuggestions = (query: string, products: ProductSuggestion[]): SearchSuggestion[] => {
+  const term = query.trim().toLowerCase();
+  const matches = (value?: string): value is string => !!value && value.toLowerCase().includes(term);
+
+  const brands = [...new Set(products.map((product) => product.brand).filter(matches))];
+  const categories = [...new Set(products.map((product) => product.category).filter(matches))];
+
+  return [
+    ...products.map((product): SearchSuggestion => ({ type: 'product', product })),
+    ...brands.map((value): SearchSuggestion => ({ type: 'brand', value })),
+    ...categories.map((value): SearchSuggestion => ({ type: 'category', value })),
+  ];
+};